@@ -1,7 +1,13 @@
-import { Client, GatewayIntentBits, Collection, REST, Routes } from 'discord.js';
+import { Client, GatewayIntentBits, Collection, REST, Routes, Partials } from 'discord.js';
 import { MessageService } from '../messages/message.service';
 import { syncLanguageCommand } from '../sync-translate/sync-language.command';
+import { syncGroupCommand } from '../sync-translate/sync-group.command';
+import { syncConfigCommand } from '../sync-translate/sync-config.command';
+import { syncGlossaryCommand } from '../sync-translate/sync-glossary.command';
+import { syncProvidersCommand } from '../sync-translate/sync-providers.command';
 import { EmojiSyncService } from '../sync-translate/emoji-sync.service';
+import { SyncTopologyService } from '../sync-translate/sync-topology.service';
+import { TranslationCancellationService } from '../sync-translate/translation-cancellation.service';
 
 export class DiscordClient {
   private client: Client;
@@ -14,7 +20,9 @@ export class DiscordClient {
         GatewayIntentBits.Guilds,
         GatewayIntentBits.GuildMessages,
         GatewayIntentBits.MessageContent,
+        GatewayIntentBits.GuildMessageReactions,
       ],
+      partials: [Partials.Message, Partials.Reaction, Partials.User],
     });
 
     this.commands = new Collection();
@@ -25,6 +33,10 @@ export class DiscordClient {
 
   private loadCommands(): void {
     this.commands.set(syncLanguageCommand.data.name, syncLanguageCommand);
+    this.commands.set(syncGroupCommand.data.name, syncGroupCommand);
+    this.commands.set(syncConfigCommand.data.name, syncConfigCommand);
+    this.commands.set(syncGlossaryCommand.data.name, syncGlossaryCommand);
+    this.commands.set(syncProvidersCommand.data.name, syncProvidersCommand);
   }
 
   private setupEventListeners(): void {
@@ -40,7 +52,85 @@ export class DiscordClient {
       }
     });
 
+    this.client.on('messageUpdate', async (oldMessage, newMessage) => {
+      try {
+        await this.messageService.handleMessageUpdate(oldMessage, newMessage);
+      } catch (error) {
+        console.error('Error handling message update:', error);
+      }
+    });
+
+    this.client.on('messageDelete', async (message) => {
+      try {
+        await this.messageService.handleMessageDelete(message);
+      } catch (error) {
+        console.error('Error handling message deletion:', error);
+      }
+    });
+
+    this.client.on('messageDeleteBulk', async (messages) => {
+      for (const message of messages.values()) {
+        try {
+          await this.messageService.handleMessageDelete(message);
+        } catch (error) {
+          console.error('Error handling bulk message deletion:', error);
+        }
+      }
+    });
+
+    this.client.on('messageReactionAdd', async (reaction, user) => {
+      try {
+        await this.messageService.handleReactionAdd(reaction, user);
+      } catch (error) {
+        console.error('Error handling reaction add:', error);
+      }
+    });
+
+    this.client.on('messageReactionRemove', async (reaction, user) => {
+      try {
+        await this.messageService.handleReactionRemove(reaction, user);
+      } catch (error) {
+        console.error('Error handling reaction removal:', error);
+      }
+    });
+
+    this.client.on('threadCreate', async (thread, newlyCreated) => {
+      try {
+        await this.messageService.handleThreadCreate(thread, newlyCreated);
+      } catch (error) {
+        console.error('Error handling thread creation:', error);
+      }
+    });
+
+    this.client.on('threadUpdate', async (oldThread, newThread) => {
+      try {
+        await this.messageService.handleThreadUpdate(oldThread, newThread);
+      } catch (error) {
+        console.error('Error handling thread update:', error);
+      }
+    });
+
+    this.client.on('threadDelete', async (thread) => {
+      try {
+        await this.messageService.handleThreadDelete(thread);
+      } catch (error) {
+        console.error('Error handling thread deletion:', error);
+      }
+    });
+
     this.client.on('interactionCreate', async (interaction) => {
+      if (interaction.isAutocomplete()) {
+        const command = this.commands.get(interaction.commandName);
+        if (!command?.autocomplete) return;
+
+        try {
+          await command.autocomplete(interaction);
+        } catch (error) {
+          console.error('Error handling autocomplete:', error);
+        }
+        return;
+      }
+
       if (!interaction.isChatInputCommand()) return;
 
       const command = this.commands.get(interaction.commandName);
@@ -71,12 +161,14 @@ export class DiscordClient {
     // Also handle process termination
     process.on('SIGINT', async () => {
       console.log('Bot shutting down (SIGINT), cleaning up temporary emojis...');
+      TranslationCancellationService.shutdown();
       await EmojiSyncService.cleanupAllTemporaryEmojis();
       process.exit(0);
     });
 
     process.on('SIGTERM', async () => {
       console.log('Bot shutting down (SIGTERM), cleaning up temporary emojis...');
+      TranslationCancellationService.shutdown();
       await EmojiSyncService.cleanupAllTemporaryEmojis();
       process.exit(0);
     });
@@ -84,6 +176,8 @@ export class DiscordClient {
 
   public async login(token: string): Promise<void> {
     try {
+      // Routing reads the topology from memory, so it has to be ready before events arrive
+      await SyncTopologyService.initialize();
       await this.registerCommands(token);
       await this.client.login(token);
     } catch (error) {
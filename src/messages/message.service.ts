@@ -1,13 +1,28 @@
-import { Message, Client } from 'discord.js';
+import {
+  Message,
+  Client,
+  MessageReaction,
+  type AnyThreadChannel,
+  type PartialMessage,
+  type PartialMessageReaction,
+  type PartialUser,
+  type User
+} from 'discord.js';
 import { SyncMessageService } from '../sync-translate/sync-message.service';
 import { SpeechToTextService } from '../speechToText/speech-to-text.service';
+import { ReactionSyncService } from '../sync-translate/reaction-sync.service';
+import { ThreadSyncService } from '../sync-translate/thread-sync.service';
+import { SyncTopologyService } from '../sync-translate/sync-topology.service';
+import { TranslationCancellationService } from '../sync-translate/translation-cancellation.service';
 
 export class MessageService {
   private syncMessageService: SyncMessageService;
   private speechToTextService: SpeechToTextService;
+  private threadSyncService: ThreadSyncService;
 
   constructor(client: Client) {
     this.syncMessageService = new SyncMessageService(client);
+    this.threadSyncService = new ThreadSyncService(client, this.syncMessageService);
     
     try {
       this.speechToTextService = new SpeechToTextService();
@@ -26,6 +41,12 @@ export class MessageService {
     // Check for voice messages first
     const isVoiceMessage = this.speechToTextService?.isVoiceMessage(message) || false;
 
+    // Threads follow the settings of the channel they were created in
+    const settingsChannelId = message.channel.isThread()
+      ? message.channel.parentId ?? message.channel.id
+      : message.channel.id;
+    const { voiceTranscription } = SyncTopologyService.getSettings(settingsChannelId);
+
     // Log all messages with emoji debugging
     const customEmojiRegex = /<(a?):(\w+):(\d+)>/g;
     const foundEmojis = message.content.match(customEmojiRegex);
@@ -46,11 +67,12 @@ export class MessageService {
     });
 
     // Process voice messages for speech-to-text
-    if (isVoiceMessage && this.speechToTextService) {
+    if (isVoiceMessage && this.speechToTextService && voiceTranscription) {
+      const job = TranslationCancellationService.start(message.id);
       try {
         console.log(`Processing voice message from ${message.author.displayName}`);
         
-        const transcriptionResult = await this.speechToTextService.processVoiceMessage(message);
+        const transcriptionResult = await this.speechToTextService.processVoiceMessage(message, job.signal);
         
         if (transcriptionResult) {
           console.log(`Voice message transcribed: "${transcriptionResult.text}"`);
@@ -60,21 +82,83 @@ export class MessageService {
           
           // Create a synthetic text message for translation processing
           const syntheticMessage = this.createSyntheticMessage(message, transcriptionResult.text);
-          await this.syncMessageService.handleMessage(syntheticMessage);
+          // Transcription and translation share one deadline
+          await this.syncMessageService.handleMessage(syntheticMessage, job);
         }
       } catch (error) {
         console.error('Failed to process voice message:', error);
-        // Send error notification
-        await this.sendTranscriptionError(message, error);
+        // Deleted messages can't be replied to
+        if (!job.cancelled) {
+          await this.sendTranscriptionError(message, error);
+        }
+      } finally {
+        job.finish();
       }
     }
 
-    // Process regular text messages for sync translation
-    if (!isVoiceMessage && message.content) {
+    // Process regular text messages and attachments for sync translation
+    if (!isVoiceMessage && (message.content || message.attachments.size > 0)) {
       await this.syncMessageService.handleMessage(message);
     }
   }
 
+  public async handleMessageUpdate(
+    oldMessage: Message | PartialMessage,
+    newMessage: Message | PartialMessage
+  ): Promise<void> {
+    // Uncached messages arrive as partials, fetch the full edited message
+    const message = newMessage.partial ? await newMessage.fetch() : newMessage;
+
+    if (message.author.bot) {
+      return;
+    }
+
+    // Embed unfurls also trigger updates, only react to real content changes
+    if (!oldMessage.partial && oldMessage.content === message.content) {
+      return;
+    }
+
+    console.log('Message edited:', {
+      author: message.author.tag,
+      messageId: message.id,
+      channel: message.channel.id,
+      content: message.content
+    });
+
+    await this.syncMessageService.handleMessageEdit(message);
+  }
+
+  public async handleMessageDelete(message: Message | PartialMessage): Promise<void> {
+    // Deleted messages are often uncached, so only the ID is relied upon
+    await this.syncMessageService.handleMessageDelete(message.id);
+  }
+
+  public async handleReactionAdd(
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser
+  ): Promise<void> {
+    await ReactionSyncService.handleReactionAdd(reaction, user);
+  }
+
+  public async handleReactionRemove(
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser
+  ): Promise<void> {
+    await ReactionSyncService.handleReactionRemove(reaction, user);
+  }
+
+  public async handleThreadCreate(thread: AnyThreadChannel, newlyCreated: boolean): Promise<void> {
+    await this.threadSyncService.handleThreadCreate(thread, newlyCreated);
+  }
+
+  public async handleThreadUpdate(oldThread: AnyThreadChannel, newThread: AnyThreadChannel): Promise<void> {
+    await this.threadSyncService.handleThreadUpdate(oldThread, newThread);
+  }
+
+  public async handleThreadDelete(thread: AnyThreadChannel): Promise<void> {
+    await this.threadSyncService.handleThreadDelete(thread);
+  }
+
   private async sendTranscriptionReply(
     originalMessage: Message,
     transcriptionResult: any
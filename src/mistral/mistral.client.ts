@@ -17,6 +17,7 @@ export interface SpeechToTextRequest {
   audioBuffer: Buffer;
   language?: string;
   format?: string;
+  signal?: AbortSignal; // Cancels the upload and transcription
 }
 
 export class MistralClient {
@@ -70,7 +71,8 @@ export class MistralClient {
         headers: {
           'Authorization': `Bearer ${this.apiKey}`,
         },
-        body: formData
+        body: formData,
+        signal: request.signal
       });
 
       if (!response.ok) {
@@ -43,7 +43,8 @@ export class SpeechToTextService {
   }
 
   public async processVoiceMessage(
-    message: Message
+    message: Message,
+    signal?: AbortSignal
   ): Promise<TranscriptionResult | null> {
     if (!this.isVoiceMessage(message)) {
       return null;
@@ -72,7 +73,7 @@ export class SpeechToTextService {
       };
 
       // Download the audio file
-      const audioBuffer = await this.downloadVoiceMessage(voiceAttachment);
+      const audioBuffer = await this.downloadVoiceMessage(voiceAttachment, signal);
       const audioFormat = this.getAudioFormat(voiceAttachment);
 
       console.log(
@@ -84,6 +85,7 @@ export class SpeechToTextService {
         audioBuffer,
         format: audioFormat,
         language: undefined, // Let Voxtral auto-detect language
+        signal,
       });
 
       const processingTime = Date.now() - startTime;
@@ -143,11 +145,14 @@ export class SpeechToTextService {
     );
   }
 
-  private async downloadVoiceMessage(attachment: Attachment): Promise<Buffer> {
+  private async downloadVoiceMessage(
+    attachment: Attachment,
+    signal?: AbortSignal
+  ): Promise<Buffer> {
     try {
       console.log(`Downloading voice message: ${attachment.url}`);
 
-      const response = await fetch(attachment.url);
+      const response = await fetch(attachment.url, { signal });
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
@@ -0,0 +1,70 @@
+import { Guild, Message, type AttachmentPayload } from "discord.js";
+
+export interface ForwardedAttachment {
+  url: string;
+  name: string;
+  size: number;
+  contentType: string | null;
+  description: string | null;
+  spoiler: boolean;
+}
+
+export class AttachmentSyncService {
+  private static readonly MB = 1024 * 1024;
+  private static readonly MAX_DESCRIPTION_LENGTH = 1024; // Discord's alt text limit
+
+  public static fromMessage(message: Message): ForwardedAttachment[] {
+    return Array.from(message.attachments.values())
+      // Voice messages are handled by speech-to-text, don't re-post the audio
+      .filter((attachment) => !attachment.waveform)
+      .map((attachment) => ({
+        url: attachment.url,
+        name: attachment.name,
+        size: attachment.size,
+        contentType: attachment.contentType,
+        description: attachment.description,
+        spoiler: attachment.spoiler,
+      }));
+  }
+
+  public static getUploadLimitBytes(guild: Guild | null | undefined): number {
+    // Webhook uploads follow the guild's boost tier limit
+    const tier = guild?.premiumTier ?? 0;
+    if (tier >= 3) return 100 * this.MB;
+    if (tier >= 2) return 50 * this.MB;
+    return 10 * this.MB;
+  }
+
+  public static prepareForUpload(
+    attachments: ForwardedAttachment[],
+    targetGuild: Guild | null | undefined
+  ): { files: AttachmentPayload[]; linkLines: string[] } {
+    const uploadLimit = this.getUploadLimitBytes(targetGuild);
+    const files: AttachmentPayload[] = [];
+    const linkLines: string[] = [];
+    let totalSize = 0;
+
+    for (const attachment of attachments) {
+      if (totalSize + attachment.size <= uploadLimit) {
+        totalSize += attachment.size;
+        files.push({
+          attachment: attachment.url,
+          name: attachment.name,
+          description: attachment.description
+            ? attachment.description.slice(0, this.MAX_DESCRIPTION_LENGTH)
+            : undefined,
+        });
+        continue;
+      }
+
+      // Too large for the target guild, link to the original instead
+      console.log(
+        `Attachment ${attachment.name} (${(attachment.size / this.MB).toFixed(2)}MB) exceeds upload limit of target guild, linking instead`
+      );
+      const link = `📎 [${attachment.name}](${attachment.url})`;
+      linkLines.push(attachment.spoiler ? `||${link}||` : link);
+    }
+
+    return { files, linkLines };
+  }
+}
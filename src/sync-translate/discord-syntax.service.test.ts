@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import { DiscordSyntaxService } from "./discord-syntax.service";
+
+describe("DiscordSyntaxService.splitText", () => {
+  test("keeps short text in one part", () => {
+    expect(DiscordSyntaxService.splitText("Hello world.", 2000)).toEqual(["Hello world."]);
+  });
+
+  test("prefers paragraph breaks", () => {
+    const text = `${"a".repeat(30)}.\n\n${"b".repeat(30)}.`;
+    expect(DiscordSyntaxService.splitText(text, 40)).toEqual([
+      `${"a".repeat(30)}.\n\n`,
+      `${"b".repeat(30)}.`,
+    ]);
+  });
+
+  test("never cuts a mention that ends past the limit", () => {
+    const mention = "<@123456789012345678>";
+    const parts = DiscordSyntaxService.splitText("x".repeat(1990) + mention, 2000);
+
+    expect(parts).toEqual(["x".repeat(1990), mention]);
+  });
+
+  test("keeps a custom emoji that ends exactly on the limit in one part", () => {
+    const emoji = "<:wave:123456789012345678>";
+    const text = "x".repeat(2000 - emoji.length) + emoji + " more";
+    const parts = DiscordSyntaxService.splitText(text, 2000);
+
+    expect(parts[0]).toEndWith(emoji);
+    expect(parts.every((part) => part.length <= 2000)).toBe(true);
+    expect(parts.join("")).toBe(text);
+  });
+
+  test("closes and reopens oversized code blocks", () => {
+    const code = "```ts\n" + "const x = 1;\n".repeat(40) + "```";
+    const parts = DiscordSyntaxService.splitText(code, 120);
+
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(part.length).toBeLessThanOrEqual(120);
+      expect(part.trimEnd()).toStartWith("```ts\n");
+      expect(part.trimEnd()).toEndWith("```");
+    }
+  });
+});
@@ -0,0 +1,388 @@
+export type DiscordTokenType =
+  | "text"
+  | "escape"
+  | "code-block"
+  | "inline-code"
+  | "masked-link"
+  | "url"
+  | "timestamp"
+  | "command"
+  | "emoji"
+  | "user"
+  | "role"
+  | "channel"
+  | "navigation"
+  | "heading";
+
+export interface DiscordToken {
+  type: DiscordTokenType;
+  text: string; // Exactly as in the message, joining all tokens gives the message back
+}
+
+// A piece of text that is never split, breakQuality tells how good a place to
+// split the text right after it is: -1 never, 0 word, 1 sentence, 2 line, 3 paragraph
+interface TextSegment {
+  text: string;
+  breakQuality: number;
+}
+
+export interface ProtectedText {
+  protectedText: string;
+  replacements: Map<string, string>; // placeholder -> original text
+}
+
+// Tried in this order at every position, so a URL inside inline code stays code
+const TOKEN_PATTERNS: Array<[Exclude<DiscordTokenType, "text">, string]> = [
+  ["escape", "\\\\[\\\\`*_~|<>\\[\\]()#:-]"],
+  ["code-block", "```[\\s\\S]*?```"],
+  ["inline-code", "``(?:[^`]|`(?!`))+?``|`[^`]+`"],
+  ["masked-link", String.raw`\[[^\[\]\n]+\]\(<?https?:\/\/[^\s()<>]+(?:\([^\s()<>]*\)[^\s()<>]*)*>?\)`],
+  // Trailing punctuation and markdown markers belong to the sentence, not the URL
+  ["url", String.raw`<https?:\/\/[^\s>]+>|https?:\/\/(?:[^\s<>()]|\([^\s<>()]*\))+(?<![.,:;!?'"*_~|])`],
+  ["timestamp", String.raw`<t:-?\d+(?::[tTdDfFR])?>`],
+  ["command", String.raw`<\/[^\s:>]+(?: [^\s:>]+){0,2}:\d+>`],
+  ["emoji", String.raw`<a?:\w+:\d+>`],
+  ["user", String.raw`<@!?\d+>`],
+  ["role", String.raw`<@&\d+>`],
+  ["channel", String.raw`<#\d+>`],
+  ["navigation", String.raw`<id:\w+>`],
+  ["heading", String.raw`^(?:#{1,3}|-#)(?= \S)`],
+];
+
+const PLACEHOLDER_KINDS: { [type in DiscordTokenType]?: string } = {
+  "code-block": "CODE",
+  "inline-code": "CODE",
+  url: "URL",
+  timestamp: "TIME",
+  command: "COMMAND",
+  emoji: "EMOJI",
+  user: "USER",
+  role: "ROLE",
+  channel: "CHANNEL",
+  navigation: "NAVIGATION",
+  heading: "HEADING",
+};
+
+// Tokenizes Discord markdown and swaps everything that must not be translated
+// for placeholders, shared by every translation provider
+export class DiscordSyntaxService {
+  private static readonly TOKEN_REGEX = new RegExp(
+    TOKEN_PATTERNS.map(([, pattern]) => `(${pattern})`).join("|"),
+    "gm"
+  );
+  private static readonly PLACEHOLDER_REGEX = /__DISCORD_[A-Z]+_\d+__/g;
+  // Case changes, spaces and "**" instead of "__" that models and Google tend to produce
+  private static readonly NEAR_MISS_PLACEHOLDER_REGEX =
+    /(?:(?:__|\*\*) ?)?DISCORD_[A-Z]+_(\d+)(?: ?(?:__|\*\*)(?!DISCORD_))?/gi;
+  private static readonly PLACEHOLDER_ERROR = "Translation lost placeholders";
+  // Markers that wrap text and have to come in pairs
+  private static readonly PAIRED_MARKERS = ["||", "**", "__", "~~"];
+  private static readonly BREAK_REGEX = /\n[ \t]*\n\s*|\n\s*|[ \t]+|(?<=[。！？])(?=\S)/g;
+  private static readonly SENTENCE_END_REGEX = /[.!?…。！？]["'”’)\]]*$/;
+
+  public static tokenize(text: string): DiscordToken[] {
+    const tokens: DiscordToken[] = [];
+    let lastIndex = 0;
+
+    for (const match of text.matchAll(this.TOKEN_REGEX)) {
+      if (match.index > lastIndex) {
+        tokens.push({ type: "text", text: text.slice(lastIndex, match.index) });
+      }
+
+      const groupIndex = match.findIndex((group, index) => index > 0 && group !== undefined);
+      tokens.push({ type: TOKEN_PATTERNS[groupIndex - 1]![0], text: match[0] });
+      lastIndex = match.index + match[0].length;
+    }
+
+    if (lastIndex < text.length) {
+      tokens.push({ type: "text", text: text.slice(lastIndex) });
+    }
+
+    return tokens;
+  }
+
+  public static protect(text: string, doNotTranslate: string[] = []): ProtectedText {
+    const replacements = new Map<string, string>();
+    let counter = 0;
+    const freeze = (kind: string, original: string): string => {
+      const placeholder = `__DISCORD_${kind}_${counter++}__`;
+      replacements.set(placeholder, original);
+      return placeholder;
+    };
+
+    // Glossary terms that must stay untranslated, longest first so
+    // "Eldoria Keep" wins over "Eldoria"
+    const termRegexes = [...doNotTranslate]
+      .sort((a, b) => b.length - a.length)
+      .map((term) => {
+        const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        return new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, "giu");
+      });
+    const protectTerms = (segment: string): string =>
+      termRegexes.reduce(
+        (result, termRegex) => result.replace(termRegex, (match) => freeze("TERM", match)),
+        segment
+      );
+
+    const protectedText = this.tokenize(text)
+      .map((token) => {
+        switch (token.type) {
+          case "text":
+            return protectTerms(token.text);
+          case "escape":
+            return token.text;
+          case "masked-link": {
+            // The label is translated, the target is not
+            const separator = token.text.lastIndexOf("](");
+            return `[${protectTerms(token.text.slice(1, separator))}](${freeze(
+              "URL",
+              token.text.slice(separator + 2, -1)
+            )})`;
+          }
+          default:
+            return freeze(PLACEHOLDER_KINDS[token.type]!, token.text);
+        }
+      })
+      .join("");
+
+    return { protectedText, replacements };
+  }
+
+  // Throws when placeholders are missing even after repairPlaceholders
+  public static restore(translatedText: string, protection: ProtectedText): string {
+    const { protectedText, replacements } = protection;
+    const repairedText = this.repairPlaceholders(translatedText, protection);
+
+    const missing = this.findMissingPlaceholders(repairedText, protection);
+    if (missing.length > 0) {
+      throw new Error(`${this.PLACEHOLDER_ERROR}: ${missing.join(", ")}`);
+    }
+
+    let restoredText = this.balanceMarkers(repairedText, protectedText);
+    for (const [placeholder, original] of replacements) {
+      // split/join because originals like code may contain "$&"
+      restoredText = restoredText.split(placeholder).join(original);
+    }
+    return restoredText;
+  }
+
+  // Puts near-miss placeholders back into shape by their number, keeps only the
+  // first copy of a duplicated one and drops placeholders that were never handed out
+  public static repairPlaceholders(translatedText: string, { replacements }: ProtectedText): string {
+    const byNumber = new Map<string, string>();
+    for (const placeholder of replacements.keys()) {
+      byNumber.set(placeholder.match(/_(\d+)__$/)![1]!, placeholder);
+    }
+
+    const seen = new Set<string>();
+    return translatedText.replace(this.NEAR_MISS_PLACEHOLDER_REGEX, (match, number: string) => {
+      const placeholder = byNumber.get(number);
+      if (!placeholder) {
+        return match.startsWith("__DISCORD_") ? "" : match;
+      }
+      if (seen.has(placeholder)) {
+        return "";
+      }
+      seen.add(placeholder);
+      return placeholder;
+    });
+  }
+
+  public static findMissingPlaceholders(text: string, { replacements }: ProtectedText): string[] {
+    return [...replacements.keys()].filter((placeholder) => !text.includes(placeholder));
+  }
+
+  public static isPlaceholderError(error: unknown): boolean {
+    return (
+      typeof error === "object" &&
+      error !== null &&
+      "message" in error &&
+      String(error.message).includes(this.PLACEHOLDER_ERROR)
+    );
+  }
+
+  // Drops a marker the translation left unpaired and pulls markers back onto
+  // their words ("** text **" -> "**text**") when the source had them tight
+  public static balanceMarkers(translatedText: string, sourceText: string): string {
+    const source = sourceText.replace(this.PLACEHOLDER_REGEX, "\u0000");
+    const placeholders: string[] = [];
+    let text = translatedText.replace(this.PLACEHOLDER_REGEX, (placeholder) => {
+      placeholders.push(placeholder);
+      return "\u0000";
+    });
+
+    for (const marker of this.PAIRED_MARKERS) {
+      const sourceCount = source.split(marker).length - 1;
+      if (sourceCount === 0 || sourceCount % 2 !== 0) {
+        continue;
+      }
+
+      if ((text.split(marker).length - 1) % 2 !== 0) {
+        const index = text.lastIndexOf(marker);
+        text = text.slice(0, index) + text.slice(index + marker.length);
+      }
+
+      if (this.tightenPairs(source, marker) === source) {
+        text = this.tightenPairs(text, marker);
+      }
+    }
+
+    let placeholderIndex = 0;
+    return text.replace(/\u0000/g, () => placeholders[placeholderIndex++]!);
+  }
+
+  // Splits text into parts of at most maxLength characters at the best boundary,
+  // paragraphs first, then lines, sentences and words. Protected tokens are only
+  // cut when a single one is longer than maxLength, code blocks are then closed
+  // and reopened
+  public static splitText(text: string, maxLength: number): string[] {
+    if (text.length <= maxLength) {
+      return [text];
+    }
+
+    const segments = this.segment(text);
+    const parts: string[] = [];
+
+    while (segments.length > 0) {
+      let length = 0;
+      let fitting = 0;
+      let best = -1;
+      let bestQuality = -1;
+      for (let index = 0; index < segments.length; index++) {
+        length += segments[index]!.text.length;
+        if (length > maxLength) {
+          break;
+        }
+        fitting = index + 1;
+
+        // Breaks in the first half of a part only win when there is nothing better
+        const quality = segments[index]!.breakQuality;
+        const weighted = length >= maxLength / 2 ? quality + 4 : quality;
+        if (index === segments.length - 1 || (quality >= 0 && weighted >= bestQuality)) {
+          best = index;
+          bestQuality = index === segments.length - 1 ? Infinity : weighted;
+        }
+      }
+
+      if (fitting === 0) {
+        segments.splice(0, 1, ...this.splitOversizedSegment(segments[0]!, maxLength));
+        continue;
+      }
+
+      // Nothing to break at within the limit, the part ends right before the
+      // segment that doesn't fit so a protected token is never cut
+      if (best === -1) {
+        best = fitting - 1;
+      }
+
+      parts.push(
+        segments
+          .splice(0, best + 1)
+          .map((segment) => segment.text)
+          .join("")
+      );
+    }
+
+    return parts;
+  }
+
+  // Whether the text has anything left to translate once protected tokens are set aside
+  public static hasTranslatableText(text: string): boolean {
+    return /[\p{L}\p{N}]/u.test(
+      this.protect(text).protectedText.replace(this.PLACEHOLDER_REGEX, "")
+    );
+  }
+
+  private static segment(text: string): TextSegment[] {
+    const segments: TextSegment[] = [];
+
+    for (const token of this.tokenize(text)) {
+      if (token.type !== "text") {
+        segments.push({ text: token.text, breakQuality: -1 });
+        continue;
+      }
+
+      let start = 0;
+      for (const match of token.text.matchAll(this.BREAK_REGEX)) {
+        const end = match.index + match[0].length;
+        if (end === 0) {
+          continue;
+        }
+
+        const before = token.text.slice(start, match.index);
+        let breakQuality = 0;
+        if ((match[0].match(/\n/g)?.length ?? 0) >= 2) {
+          breakQuality = 3;
+        } else if (match[0].includes("\n")) {
+          breakQuality = 2;
+        } else if (match[0] === "" || this.SENTENCE_END_REGEX.test(before)) {
+          breakQuality = 1;
+        }
+
+        segments.push({ text: token.text.slice(start, end), breakQuality });
+        start = end;
+      }
+
+      if (start < token.text.length) {
+        segments.push({ text: token.text.slice(start), breakQuality: -1 });
+      }
+    }
+
+    // Text right before a token has no break, it only ends a part when nothing
+    // better fits
+    return segments.filter((segment) => segment.text.length > 0);
+  }
+
+  // Makes a segment longer than maxLength fit, either as a code block that is
+  // closed and reopened or by cutting it hard
+  private static splitOversizedSegment(first: TextSegment, maxLength: number): TextSegment[] {
+    const codeBlock = first.text.match(/^```([^\n`]*\n)?([\s\S]*?)```$/);
+
+    if (codeBlock) {
+      const header = `\`\`\`${codeBlock[1] ?? ""}`;
+      const room = maxLength - header.length - "\n```\n".length;
+      if (room > 0) {
+        const bodies: string[] = [];
+        let body = "";
+        for (const line of codeBlock[2]!.split(/(?<=\n)/)) {
+          for (let offset = 0; offset < line.length; offset += room) {
+            const piece = line.slice(offset, offset + room);
+            if (body.length + piece.length > room) {
+              bodies.push(body);
+              body = "";
+            }
+            body += piece;
+          }
+        }
+        bodies.push(body);
+
+        return bodies.map((content, index) => ({
+          text: `${header}${content}${content.endsWith("\n") ? "" : "\n"}\`\`\`${
+            index < bodies.length - 1 ? "\n" : ""
+          }`,
+          breakQuality: index < bodies.length - 1 ? 2 : first.breakQuality,
+        }));
+      }
+    }
+
+    // Nothing to break at, so the text is cut, without splitting a surrogate pair
+    let cut = maxLength;
+    if (/[\uD800-\uDBFF]/.test(first.text[cut - 1]!)) {
+      cut--;
+    }
+    return [
+      { text: first.text.slice(0, cut), breakQuality: 0 },
+      { text: first.text.slice(cut), breakQuality: first.breakQuality },
+    ];
+  }
+
+  private static tightenPairs(text: string, marker: string): string {
+    const parts = text.split(marker);
+    if (parts.length % 2 === 0) {
+      return text;
+    }
+    return parts
+      .map((part, index) => (index % 2 === 1 ? part.replace(/^[ \t]+|[ \t]+$/g, "") : part))
+      .join(marker);
+  }
+}
@@ -101,6 +101,35 @@ export class LanguageService {
     }));
   }
 
+  public static getLanguageChoicesForQuery(query: string, limit: number = 25): LanguageChoice[] {
+    const searchTerm = query.trim().toLowerCase();
+
+    // Auto-detect is only meaningful as a source language, never as a channel language
+    const candidates = searchTerm
+      ? this.searchLanguages(searchTerm).filter(lang => lang.code !== 'auto')
+      : [...PRIMARY_LANGUAGES, ...SUPPORTED_LANGUAGES.filter(
+          lang => lang.code !== 'auto' && !PRIMARY_LANGUAGES.some(primary => primary.code === lang.code)
+        )];
+
+    // Exact code matches first, then names starting with the query
+    const rank = (lang: Language): number => {
+      if (!searchTerm) return 0;
+      if (lang.code.toLowerCase() === searchTerm) return 0;
+      if (lang.name.toLowerCase().startsWith(searchTerm) ||
+          lang.nativeName?.toLowerCase().startsWith(searchTerm)) return 1;
+      return 2;
+    };
+
+    return candidates
+      .map((lang, index) => ({ lang, index, rank: rank(lang) }))
+      .sort((a, b) => a.rank - b.rank || a.index - b.index)
+      .slice(0, limit)
+      .map(({ lang }) => ({
+        name: `${lang.name} (${lang.nativeName})`,
+        value: lang.code
+      }));
+  }
+
   public static isLanguageSupported(languageCode: string): boolean {
     return this.supportedLanguageCodes.has(languageCode.toLowerCase());
   }
@@ -0,0 +1,245 @@
+export interface MirroredMessage {
+  channelId: string;
+  messageId: string;
+  language: string;
+  viaWebhook: boolean;
+  extraMessageIds?: string[]; // Further parts of a translation too long for one message
+}
+
+export interface MessageLink {
+  sourceMessageId: string;
+  sourceChannelId: string;
+  serverId: string;
+  createdAt: number;
+  mirrors: MirroredMessage[];
+}
+
+export interface MessageLinkStorage {
+  [sourceMessageId: string]: MessageLink;
+}
+
+export class MessageLinkService {
+  private static readonly STORAGE_FILE_PATH = "./message-links.json";
+  private static readonly MAX_LINKS = 5000;
+
+  private static links: Map<string, MessageLink> | null = null;
+  private static mirrorIndex = new Map<string, string>(); // mirror messageId -> source messageId
+  private static saveQueue: Promise<void> = Promise.resolve();
+
+  private static async ensureLoaded(): Promise<Map<string, MessageLink>> {
+    if (this.links) {
+      return this.links;
+    }
+
+    const links = new Map<string, MessageLink>();
+
+    try {
+      const file = Bun.file(this.STORAGE_FILE_PATH);
+      if (await file.exists()) {
+        const data = JSON.parse(await file.text()) as MessageLinkStorage;
+        for (const link of Object.values(data)) {
+          links.set(link.sourceMessageId, link);
+        }
+      }
+    } catch (error) {
+      console.error("Error loading message link data:", error);
+    }
+
+    this.links = links;
+    this.mirrorIndex.clear();
+    for (const link of links.values()) {
+      for (const mirror of link.mirrors) {
+        for (const messageId of this.getMessageIds(mirror)) {
+          this.mirrorIndex.set(messageId, link.sourceMessageId);
+        }
+      }
+    }
+
+    return links;
+  }
+
+  private static async saveLinks(): Promise<void> {
+    // Serialize writes so concurrent updates never interleave on disk
+    this.saveQueue = this.saveQueue.then(async () => {
+      try {
+        const data: MessageLinkStorage = {};
+        for (const [sourceMessageId, link] of this.links ?? []) {
+          data[sourceMessageId] = link;
+        }
+        await Bun.write(this.STORAGE_FILE_PATH, JSON.stringify(data));
+      } catch (error) {
+        console.error("Error saving message link data:", error);
+      }
+    });
+
+    return this.saveQueue;
+  }
+
+  private static pruneOldLinks(links: Map<string, MessageLink>): void {
+    if (links.size <= this.MAX_LINKS) {
+      return;
+    }
+
+    // Map preserves insertion order, so the first entries are the oldest
+    const overflow = links.size - this.MAX_LINKS;
+    const oldestIds = Array.from(links.keys()).slice(0, overflow);
+    for (const sourceMessageId of oldestIds) {
+      this.deleteLinkEntry(links, sourceMessageId);
+    }
+  }
+
+  private static deleteLinkEntry(
+    links: Map<string, MessageLink>,
+    sourceMessageId: string
+  ): MessageLink | null {
+    const link = links.get(sourceMessageId);
+    if (!link) {
+      return null;
+    }
+
+    for (const mirror of link.mirrors) {
+      for (const messageId of this.getMessageIds(mirror)) {
+        this.mirrorIndex.delete(messageId);
+      }
+    }
+    links.delete(sourceMessageId);
+
+    return link;
+  }
+
+  public static async addMirror(
+    source: { messageId: string; channelId: string; serverId: string },
+    mirror: MirroredMessage
+  ): Promise<void> {
+    const links = await this.ensureLoaded();
+
+    let link = links.get(source.messageId);
+    if (!link) {
+      link = {
+        sourceMessageId: source.messageId,
+        sourceChannelId: source.channelId,
+        serverId: source.serverId,
+        createdAt: Date.now(),
+        mirrors: [],
+      };
+      links.set(source.messageId, link);
+    }
+
+    // Replace any previous mirror in the same channel
+    for (const previous of link.mirrors.filter((m) => m.channelId === mirror.channelId)) {
+      for (const messageId of this.getMessageIds(previous)) {
+        this.mirrorIndex.delete(messageId);
+      }
+    }
+    link.mirrors = link.mirrors.filter((m) => m.channelId !== mirror.channelId);
+    link.mirrors.push(mirror);
+    for (const messageId of this.getMessageIds(mirror)) {
+      this.mirrorIndex.set(messageId, source.messageId);
+    }
+
+    this.pruneOldLinks(links);
+    await this.saveLinks();
+  }
+
+  public static async getLink(
+    sourceMessageId: string
+  ): Promise<MessageLink | null> {
+    const links = await this.ensureLoaded();
+    return links.get(sourceMessageId) || null;
+  }
+
+  public static async findLinkByMessageId(
+    messageId: string
+  ): Promise<MessageLink | null> {
+    const links = await this.ensureLoaded();
+    const sourceMessageId = links.has(messageId)
+      ? messageId
+      : this.mirrorIndex.get(messageId);
+
+    return sourceMessageId ? links.get(sourceMessageId) || null : null;
+  }
+
+  public static async findCopyInChannel(
+    messageId: string,
+    channelId: string
+  ): Promise<string | null> {
+    const link = await this.findLinkByMessageId(messageId);
+
+    if (!link) {
+      return null;
+    }
+
+    if (link.sourceChannelId === channelId) {
+      return link.sourceMessageId;
+    }
+
+    const mirror = link.mirrors.find((m) => m.channelId === channelId);
+    return mirror ? mirror.messageId : null;
+  }
+
+  public static async removeLink(
+    sourceMessageId: string
+  ): Promise<MessageLink | null> {
+    const links = await this.ensureLoaded();
+    const removed = this.deleteLinkEntry(links, sourceMessageId);
+
+    if (removed) {
+      await this.saveLinks();
+    }
+
+    return removed;
+  }
+
+  public static async removeMirror(
+    mirrorMessageId: string
+  ): Promise<MirroredMessage | null> {
+    const links = await this.ensureLoaded();
+    const sourceMessageId = this.mirrorIndex.get(mirrorMessageId);
+    const link = sourceMessageId ? links.get(sourceMessageId) : undefined;
+
+    if (!link) {
+      return null;
+    }
+
+    const mirror = link.mirrors.find((m) => m.messageId === mirrorMessageId);
+    this.mirrorIndex.delete(mirrorMessageId);
+
+    if (!mirror) {
+      // Only one of the further parts was removed, the mirror itself stays
+      for (const m of link.mirrors) {
+        m.extraMessageIds = m.extraMessageIds?.filter((id) => id !== mirrorMessageId);
+      }
+      await this.saveLinks();
+      return null;
+    }
+
+    link.mirrors = link.mirrors.filter((m) => m.messageId !== mirrorMessageId);
+    for (const messageId of mirror.extraMessageIds ?? []) {
+      this.mirrorIndex.delete(messageId);
+    }
+
+    if (link.mirrors.length === 0) {
+      links.delete(link.sourceMessageId);
+    }
+
+    await this.saveLinks();
+    return mirror;
+  }
+
+  // All Discord messages that make up a mirror, in posting order
+  public static getMessageIds(mirror: MirroredMessage): string[] {
+    return [mirror.messageId, ...(mirror.extraMessageIds ?? [])];
+  }
+
+  public static getLinkStats(): { totalLinks: number; totalMirrors: number } {
+    let totalMirrors = 0;
+    for (const link of this.links?.values() ?? []) {
+      totalMirrors += link.mirrors.length;
+    }
+
+    return {
+      totalLinks: this.links?.size || 0,
+      totalMirrors,
+    };
+  }
+}
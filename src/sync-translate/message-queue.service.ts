@@ -1,8 +1,18 @@
-import { Message, TextChannel } from 'discord.js';
+import { Message, TextChannel, Guild } from 'discord.js';
 import { WebhookService } from './webhook.service';
 import { UserUtils } from '../utils/user.utils';
 import { AvatarCleanupService } from './avatar-cleanup.service';
 import { EmojiSyncService, type EmojiCloneInfo } from './emoji-sync.service';
+import { MessageLinkService, type MirroredMessage } from './message-link.service';
+import { AttachmentSyncService, type ForwardedAttachment } from './attachment-sync.service';
+import { SyncSettingsService } from './sync-settings.service';
+import { DiscordSyntaxService } from './discord-syntax.service';
+
+export interface ReplyReference {
+  messageId: string;
+  authorName: string;
+  content: string;
+}
 
 export interface QueuedMessage {
   id: string;
@@ -10,6 +20,10 @@ export interface QueuedMessage {
   targetChannelId: string;
   targetLanguage: string;
   translatedText?: string;
+  editTarget?: MirroredMessage; // Set when this entry updates an already mirrored message
+  replyTo?: ReplyReference;
+  attachments?: ForwardedAttachment[];
+  displayFormat?: string;
   timestamp: number;
   userProfile?: {
     username: string;
@@ -22,6 +36,8 @@ export interface QueuedMessage {
 export class MessageQueue {
   private queue: QueuedMessage[] = [];
   private processing = false;
+  private readonly REPLY_SNIPPET_LENGTH = 100;
+  private readonly MAX_MESSAGE_LENGTH = 2000; // Discord rejects longer messages
 
   constructor(channelId: string) {
     // channelId is stored for potential future use
@@ -43,7 +59,11 @@ export class MessageQueue {
       const message = this.queue.shift();
       if (message) {
         try {
-          await this.sendTranslatedMessage(message);
+          if (message.editTarget) {
+            await this.editTranslatedMessage(message);
+          } else {
+            await this.sendTranslatedMessage(message);
+          }
         } catch (error) {
           console.error(`Failed to send message to channel ${message.targetChannelId}:`, error);
         }
@@ -79,9 +99,8 @@ export class MessageQueue {
         }
       }
 
-      const sourceChannelName = (queuedMessage.originalMessage.channel as TextChannel).name;
       const translatedContent = queuedMessage.translatedText;
-      const usernameWithChannel = `${userProfile.displayName} [#${sourceChannelName}]`;
+      const senderName = this.formatSenderName(queuedMessage, userProfile.displayName, userProfile.username);
       
       // Debug emoji availability in target vs source guild
       const sourceGuild = queuedMessage.originalMessage.guild;
@@ -118,63 +137,90 @@ export class MessageQueue {
       }
       
       // Handle emoji cloning (cross-server or missing emojis)
-      let finalContent = translatedContent;
-      
-      // Check if we need to handle emoji cloning
-      const customEmojiRegex = /<(a?):([^:]+):(\d+)>/g;
-      const foundEmojis = translatedContent.match(customEmojiRegex);
-      const needsEmojiHandling = foundEmojis && foundEmojis.length > 0;
-      
-      console.log(`Emojis in translated content: ${foundEmojis || 'none'}`);
-      console.log(`Needs emoji handling: ${needsEmojiHandling}`);
+      const emojiResult = await this.processEmojis(translatedContent, sourceGuild, targetGuild);
+      clonedEmojis = emojiResult.clonedEmojis;
+      const contentWithReply = await this.withReplyHeader(emojiResult.finalContent, queuedMessage.replyTo, targetChannel);
+
+      // Re-upload attachments that fit the target guild's limit, link the rest
+      const { files, linkLines } = AttachmentSyncService.prepareForUpload(
+        queuedMessage.attachments || [],
+        targetGuild
+      );
+      const finalContent = [contentWithReply, ...linkLines].filter(part => part).join('\n');
       
-      if (sourceGuild && targetGuild && needsEmojiHandling) {
-        // Handle both cross-server and same-server emoji issues
-        const isCrossServer = sourceGuild.id !== targetGuild.id;
-        console.log(`Processing emojis (cross-server: ${isCrossServer})`);
-        
-        try {
-          const emojiResult = await EmojiSyncService.extractAndCloneEmojis(
-            translatedContent,
-            sourceGuild,
-            targetGuild
-          );
-          finalContent = emojiResult.processedContent;
-          clonedEmojis = emojiResult.clonedEmojis;
-          
-          if (clonedEmojis.length > 0) {
-            console.log(`Cloned ${clonedEmojis.length} emojis for translation`);
+      // Try webhook first for better user impersonation, long translations are
+      // posted in several parts with the files on the last one
+      const sentIds: string[] = [];
+      let viaWebhook = true;
+      const parts = this.splitForPosting(finalContent, true, senderName);
+
+      for (const [index, part] of parts.entries()) {
+        const webhookMessage = await WebhookService.sendWebhookMessage(
+          queuedMessage.targetChannelId,
+          part,
+          senderName,
+          userProfile.avatarUrl,
+          index === parts.length - 1 ? files : []
+        );
+
+        if (webhookMessage) {
+          sentIds.push(webhookMessage.id);
+          continue;
+        }
+
+        viaWebhook = false;
+        if (index > 0) {
+          // A mirror is either all webhook or all bot messages, so the parts already
+          // posted are replaced and the whole message goes through the fallback
+          console.error(`Failed to send part ${index + 1} of ${parts.length} to channel ${queuedMessage.targetChannelId}, reposting all parts as regular messages`);
+          for (const messageId of sentIds.splice(0)) {
+            if (!(await WebhookService.deleteWebhookMessage(queuedMessage.targetChannelId, messageId))) {
+              console.warn(`Could not delete partial webhook message ${messageId} in channel ${queuedMessage.targetChannelId}`);
+            }
           }
-        } catch (error) {
-          console.error('Failed to clone emojis for translation:', error);
-          // Fallback to original content
-          finalContent = translatedContent;
         }
+        break;
       }
-      
-      // Try webhook first for better user impersonation
-      const webhookSuccess = await WebhookService.sendWebhookMessage(
-        queuedMessage.targetChannelId,
-        finalContent,
-        usernameWithChannel,
-        userProfile.avatarUrl
-      );
 
-      if (!webhookSuccess) {
+      if (!viaWebhook) {
         // Fallback to regular bot message
         console.log('Webhook failed, falling back to regular message');
-        const targetChannel = await queuedMessage.originalMessage.client.channels.fetch(queuedMessage.targetChannelId) as TextChannel;
-        
+
         if (!targetChannel || !targetChannel.isTextBased()) {
           console.error(`Target channel ${queuedMessage.targetChannelId} is not a text channel`);
           return;
         }
 
-        const fallbackContent = `**${userProfile.displayName} [#${sourceChannelName}]**:\n${finalContent}`;
-        await targetChannel.send(fallbackContent);
+        const fallbackParts = this.splitForPosting(finalContent, false, senderName);
+        for (const [index, part] of fallbackParts.entries()) {
+          const sentMessage = await targetChannel.send({
+            content: part,
+            files: index === fallbackParts.length - 1 ? files : []
+          });
+          sentIds.push(sentMessage.id);
+        }
       }
       
-      console.log(`Translated message sent to channel ${queuedMessage.targetChannelId} as ${userProfile.displayName}`);
+      console.log(`Translated message sent to channel ${queuedMessage.targetChannelId} as ${userProfile.displayName} in ${sentIds.length} part(s)`);
+
+      // Remember where the translation landed so edits can follow it
+      if (sentIds.length > 0) {
+        const originalMessage = queuedMessage.originalMessage;
+        await MessageLinkService.addMirror(
+          {
+            messageId: originalMessage.id,
+            channelId: originalMessage.channel.id,
+            serverId: originalMessage.guild!.id
+          },
+          {
+            channelId: queuedMessage.targetChannelId,
+            messageId: sentIds[0]!,
+            language: queuedMessage.targetLanguage,
+            viaWebhook,
+            extraMessageIds: sentIds.length > 1 ? sentIds.slice(1) : undefined
+          }
+        );
+      }
       
       // Schedule cleanup for cloned emojis
       if (clonedEmojis.length > 0) {
@@ -202,6 +248,222 @@ export class MessageQueue {
     }
   }
 
+  private async editTranslatedMessage(queuedMessage: QueuedMessage): Promise<void> {
+    const originalMessage = queuedMessage.originalMessage;
+
+    // An earlier edit in the queue may have added or removed parts since this one was queued
+    const link = await MessageLinkService.getLink(originalMessage.id);
+    const mirror = link?.mirrors.find(m => m.channelId === queuedMessage.editTarget!.channelId);
+    if (!mirror) {
+      console.log(`Mirrored message of ${originalMessage.id} in channel ${queuedMessage.editTarget!.channelId} no longer exists, skipping edit`);
+      return;
+    }
+
+    const targetChannel = await originalMessage.client.channels.fetch(mirror.channelId) as TextChannel;
+
+    if (!targetChannel || !targetChannel.isTextBased()) {
+      console.error(`Target channel ${mirror.channelId} is not a text channel`);
+      return;
+    }
+
+    const emojiResult = await this.processEmojis(
+      queuedMessage.translatedText || '',
+      originalMessage.guild,
+      targetChannel.guild
+    );
+    const clonedEmojis = emojiResult.clonedEmojis;
+
+    try {
+      const contentWithReply = await this.withReplyHeader(emojiResult.finalContent, queuedMessage.replyTo, targetChannel);
+
+      // Uploaded files stay on the message, only the link fallbacks need re-rendering
+      const { linkLines } = AttachmentSyncService.prepareForUpload(
+        queuedMessage.attachments || [],
+        targetChannel.guild
+      );
+      const finalContent = [contentWithReply, ...linkLines].filter(part => part).join('\n');
+
+      // New parts use the same name and avatar as the parts posted first, mirrors
+      // posted by the bot itself keep the fallback header format
+      const author = originalMessage.author;
+      const senderName = this.formatSenderName(queuedMessage, author.displayName || author.username, author.username);
+      const parts = this.splitForPosting(finalContent, mirror.viaWebhook, senderName);
+      const existingIds = MessageLinkService.getMessageIds(mirror);
+      const partIds: string[] = [];
+
+      // Existing parts are edited in place, a longer translation gets new parts
+      // and a shorter one drops the parts it no longer needs
+      for (const [index, part] of parts.entries()) {
+        const messageId = existingIds[index];
+
+        if (messageId) {
+          await this.editPart(targetChannel, mirror, messageId, part);
+          partIds.push(messageId);
+        } else if (mirror.viaWebhook) {
+          const sent = await WebhookService.sendWebhookMessage(
+            mirror.channelId,
+            part,
+            senderName,
+            UserUtils.getAvatarUrl(author)
+          );
+          if (!sent) {
+            throw new Error(`Could not send part ${index + 1} of edited message ${mirror.messageId}`);
+          }
+          partIds.push(sent.id);
+        } else {
+          partIds.push((await targetChannel.send({ content: part })).id);
+        }
+      }
+
+      for (const messageId of existingIds.slice(parts.length)) {
+        const deleted = mirror.viaWebhook
+          ? await WebhookService.deleteWebhookMessage(mirror.channelId, messageId)
+          : await targetChannel.messages.delete(messageId).then(() => true, () => false);
+        if (!deleted) {
+          console.warn(`Could not delete surplus part ${messageId} of mirrored message ${mirror.messageId}`);
+        }
+      }
+
+      if (partIds.length !== existingIds.length) {
+        await MessageLinkService.addMirror(
+          {
+            messageId: originalMessage.id,
+            channelId: originalMessage.channel.id,
+            serverId: originalMessage.guild!.id
+          },
+          {
+            ...mirror,
+            extraMessageIds: partIds.length > 1 ? partIds.slice(1) : undefined
+          }
+        );
+      }
+
+      console.log(`Updated mirrored message ${mirror.messageId} in channel ${mirror.channelId} (${parts.length} part(s))`);
+    } finally {
+      if (clonedEmojis.length > 0) {
+        await EmojiSyncService.scheduleEmojiCleanup(clonedEmojis);
+      }
+    }
+  }
+
+  private async editPart(
+    targetChannel: TextChannel,
+    mirror: MirroredMessage,
+    messageId: string,
+    content: string
+  ): Promise<void> {
+    if (mirror.viaWebhook) {
+      const edited = await WebhookService.editWebhookMessage(mirror.channelId, messageId, content);
+      if (!edited) {
+        throw new Error(`Could not edit mirrored message ${messageId}`);
+      }
+    } else {
+      const mirroredMessage = await targetChannel.messages.fetch(messageId);
+      await mirroredMessage.edit(content);
+    }
+  }
+
+  // Splits content into messages that fit Discord's limit, bot messages start
+  // with the sender header so the first part has less room
+  private splitForPosting(content: string, viaWebhook: boolean, senderName: string): string[] {
+    if (viaWebhook) {
+      return DiscordSyntaxService.splitText(content, this.MAX_MESSAGE_LENGTH);
+    }
+
+    const header = `**${senderName}**:\n`;
+    const parts = DiscordSyntaxService.splitText(content, this.MAX_MESSAGE_LENGTH - header.length);
+    parts[0] = `${header}${parts[0]}`;
+    return parts;
+  }
+
+  private formatSenderName(queuedMessage: QueuedMessage, displayName: string, username: string): string {
+    const originalMessage = queuedMessage.originalMessage;
+    return SyncSettingsService.formatDisplayName(
+      queuedMessage.displayFormat || SyncSettingsService.DEFAULT_SETTINGS.displayFormat,
+      {
+        displayName,
+        username,
+        channel: (originalMessage.channel as TextChannel).name,
+        server: originalMessage.guild?.name || ''
+      }
+    );
+  }
+
+  private async withReplyHeader(
+    content: string,
+    replyTo: ReplyReference | undefined,
+    targetChannel: TextChannel | null
+  ): Promise<string> {
+    if (!replyTo || !targetChannel) {
+      return content;
+    }
+
+    // Webhooks cannot create real replies, so link to the matching copy in this channel instead
+    const copyId = await MessageLinkService.findCopyInChannel(replyTo.messageId, targetChannel.id);
+    if (copyId) {
+      const jumpUrl = `https://discord.com/channels/${targetChannel.guild.id}/${targetChannel.id}/${copyId}`;
+      return `-# ↪️ Replying to **${replyTo.authorName}** ${jumpUrl}\n${content}`;
+    }
+
+    // Referenced message was never mirrored here, quote a snippet of it instead
+    const snippet = replyTo.content.replace(/\s+/g, ' ').trim();
+    if (!snippet) {
+      return `-# ↪️ Replying to **${replyTo.authorName}**\n${content}`;
+    }
+
+    const truncated = snippet.length > this.REPLY_SNIPPET_LENGTH
+      ? `${snippet.slice(0, this.REPLY_SNIPPET_LENGTH)}…`
+      : snippet;
+    return `> **${replyTo.authorName}**: ${truncated}\n${content}`;
+  }
+
+  private async processEmojis(
+    translatedContent: string,
+    sourceGuild: Guild | null,
+    targetGuild: Guild | null | undefined
+  ): Promise<{ finalContent: string; clonedEmojis: EmojiCloneInfo[] }> {
+    // Check if we need to handle emoji cloning
+    const customEmojiRegex = /<(a?):([^:]+):(\d+)>/g;
+    const foundEmojis = translatedContent.match(customEmojiRegex);
+    const needsEmojiHandling = foundEmojis && foundEmojis.length > 0;
+    
+    console.log(`Emojis in translated content: ${foundEmojis || 'none'}`);
+    console.log(`Needs emoji handling: ${needsEmojiHandling}`);
+    
+    if (!sourceGuild || !targetGuild || !needsEmojiHandling) {
+      return { finalContent: translatedContent, clonedEmojis: [] };
+    }
+
+    // Handle both cross-server and same-server emoji issues
+    const isCrossServer = sourceGuild.id !== targetGuild.id;
+    console.log(`Processing emojis (cross-server: ${isCrossServer})`);
+    
+    try {
+      const emojiResult = await EmojiSyncService.extractAndCloneEmojis(
+        translatedContent,
+        sourceGuild,
+        targetGuild
+      );
+      
+      if (emojiResult.clonedEmojis.length > 0) {
+        console.log(`Cloned ${emojiResult.clonedEmojis.length} emojis for translation`);
+      }
+
+      return { finalContent: emojiResult.processedContent, clonedEmojis: emojiResult.clonedEmojis };
+    } catch (error) {
+      console.error('Failed to clone emojis for translation:', error);
+      // Fallback to original content
+      return { finalContent: translatedContent, clonedEmojis: [] };
+    }
+  }
+
+  // Returns how many entries were dropped
+  public removeBySourceMessage(messageId: string): number {
+    const before = this.queue.length;
+    this.queue = this.queue.filter((queued) => queued.originalMessage.id !== messageId);
+    return before - this.queue.length;
+  }
+
   public getQueueLength(): number {
     return this.queue.length;
   }
@@ -256,7 +518,10 @@ export class MessageQueueManager {
       displayName: string;
       avatarUrl?: string;
       profilePicturePath?: string;
-    }
+    },
+    replyTo?: ReplyReference,
+    attachments?: ForwardedAttachment[],
+    displayFormat?: string
   ): Promise<void> {
     const queue = this.getOrCreateQueue(targetChannelId);
     
@@ -267,12 +532,52 @@ export class MessageQueueManager {
       targetLanguage,
       translatedText,
       timestamp: originalMessage.createdTimestamp,
-      userProfile
+      userProfile,
+      replyTo,
+      attachments,
+      displayFormat
     };
 
     await queue.addMessage(queuedMessage);
   }
 
+  public static async addEditToQueue(
+    mirror: MirroredMessage,
+    originalMessage: Message,
+    translatedText: string,
+    replyTo?: ReplyReference,
+    attachments?: ForwardedAttachment[],
+    displayFormat?: string
+  ): Promise<void> {
+    const queue = this.getOrCreateQueue(mirror.channelId);
+    const editedTimestamp = originalMessage.editedTimestamp || Date.now();
+
+    const queuedMessage: QueuedMessage = {
+      id: `${originalMessage.id}_${mirror.channelId}_edit_${editedTimestamp}`,
+      originalMessage,
+      targetChannelId: mirror.channelId,
+      targetLanguage: mirror.language,
+      translatedText,
+      editTarget: mirror,
+      replyTo,
+      attachments,
+      displayFormat,
+      timestamp: editedTimestamp
+    };
+
+    await queue.addMessage(queuedMessage);
+  }
+
+  // Drops copies of a deleted source message that are not posted yet
+  public static removeQueuedMessages(messageId: string): void {
+    for (const [channelId, queue] of this.queues) {
+      const removed = queue.removeBySourceMessage(messageId);
+      if (removed > 0) {
+        console.log(`Dropped ${removed} queued copies of deleted message ${messageId} for channel ${channelId}`);
+      }
+    }
+  }
+
   public static getQueueStats(): { [channelId: string]: { length: number; processing: boolean } } {
     const stats: { [channelId: string]: { length: number; processing: boolean } } = {};
     
@@ -0,0 +1,151 @@
+import { DiscordSyntaxService } from "../discord-syntax.service";
+import type {
+  ProviderCapabilities,
+  ProviderTranslationRequest,
+  ProviderTranslationResult,
+  TranslationProvider,
+} from "./translation-provider";
+import type { RateLimits } from "./rate-limiter";
+
+// Our language codes mapped to DeepL target languages
+const DEEPL_TARGET_LANGUAGES: { [language: string]: string } = {
+  ar: "AR",
+  bg: "BG",
+  cs: "CS",
+  da: "DA",
+  de: "DE",
+  en: "EN-US",
+  es: "ES",
+  et: "ET",
+  fi: "FI",
+  fr: "FR",
+  hu: "HU",
+  it: "IT",
+  ja: "JA",
+  ko: "KO",
+  lt: "LT",
+  lv: "LV",
+  nl: "NL",
+  no: "NB",
+  pl: "PL",
+  pt: "PT-BR",
+  ro: "RO",
+  ru: "RU",
+  sk: "SK",
+  sl: "SL",
+  sv: "SV",
+  tr: "TR",
+  "zh-cn": "ZH-HANS",
+  "zh-tw": "ZH-HANT",
+};
+
+interface DeepLResponse {
+  translations?: Array<{ detected_source_language: string; text: string }>;
+  message?: string;
+}
+
+export class DeepLTranslationProvider implements TranslationProvider {
+  private static readonly FREE_API_URL = "https://api-free.deepl.com/v2/translate";
+  private static readonly PRO_API_URL = "https://api.deepl.com/v2/translate";
+  private static readonly MAX_CONTEXT_LENGTH = 2000;
+
+  public readonly id = "deepl";
+  public readonly name = "DeepL";
+  public readonly capabilities: ProviderCapabilities = {
+    languages: Object.keys(DEEPL_TARGET_LANGUAGES),
+    maxTextLength: 5000,
+    supportsContext: true,
+    supportsGlossary: false,
+    supportsBatch: false,
+  };
+
+  public readonly rateLimits: RateLimits = {
+    requestsPerSecond: 5,
+    tokensPerMinute: Infinity,
+    maxConcurrency: 4,
+  };
+
+  public isConfigured(): boolean {
+    return !!process.env.DEEPL_API_KEY;
+  }
+
+  public async translate(
+    request: ProviderTranslationRequest
+  ): Promise<ProviderTranslationResult> {
+    const apiKey = process.env.DEEPL_API_KEY;
+    if (!apiKey) {
+      throw new Error("DEEPL_API_KEY environment variable is required");
+    }
+
+    const targetLanguage = DEEPL_TARGET_LANGUAGES[request.targetLanguage.toLowerCase()];
+    if (!targetLanguage) {
+      throw new Error(`Unsupported target language for DeepL: ${request.targetLanguage}`);
+    }
+
+    const protection = DiscordSyntaxService.protect(
+      request.text,
+      request.glossary?.doNotTranslate
+    );
+
+    const body: Record<string, unknown> = {
+      text: [protection.protectedText],
+      target_lang: targetLanguage,
+    };
+
+    // Source languages have no regional variants
+    const sourceLanguage = request.originLanguage
+      ? DEEPL_TARGET_LANGUAGES[request.originLanguage.toLowerCase()]
+      : undefined;
+    if (sourceLanguage) {
+      body.source_lang = sourceLanguage.startsWith("ZH") ? "ZH" : sourceLanguage.split("-")[0];
+    }
+
+    // "prefer_" variants don't fail for languages without formality support
+    if (request.formality === "formal") {
+      body.formality = "prefer_more";
+    } else if (request.formality === "informal") {
+      body.formality = "prefer_less";
+    }
+
+    // The first context message is the one being translated
+    const context = (request.contextMessages ?? [])
+      .slice(1)
+      .filter((msg) => !msg.author.bot && msg.content.trim().length > 0)
+      .map((msg) => msg.content)
+      .join("\n")
+      .slice(-DeepLTranslationProvider.MAX_CONTEXT_LENGTH);
+    if (context) {
+      body.context = context;
+    }
+
+    // Free plan keys end with ":fx"
+    const url = apiKey.endsWith(":fx")
+      ? DeepLTranslationProvider.FREE_API_URL
+      : DeepLTranslationProvider.PRO_API_URL;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `DeepL-Auth-Key ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+
+    const data = (await response.json().catch(() => ({}))) as DeepLResponse;
+    if (!response.ok) {
+      throw new Error(`DeepL HTTP ${response.status}: ${data.message ?? response.statusText}`);
+    }
+
+    const translatedText = data.translations?.[0]?.text;
+    if (!translatedText) {
+      throw new Error("DeepL returned an empty translation");
+    }
+
+    return {
+      translatedText: DiscordSyntaxService.restore(translatedText, protection),
+      provider: this.id,
+    };
+  }
+}
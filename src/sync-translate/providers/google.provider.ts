@@ -0,0 +1,46 @@
+import { TranslationService } from "../translate.service";
+import type {
+  ProviderCapabilities,
+  ProviderTranslationRequest,
+  ProviderTranslationResult,
+  TranslationProvider,
+} from "./translation-provider";
+import type { RateLimits } from "./rate-limiter";
+
+// Unofficial Google Translate endpoint, needs no API key
+export class GoogleTranslationProvider implements TranslationProvider {
+  public readonly id = "google";
+  public readonly name = "Google Translate";
+  public readonly capabilities: ProviderCapabilities = {
+    languages: "all",
+    maxTextLength: 5000,
+    supportsContext: false,
+    supportsGlossary: false,
+    supportsBatch: false,
+  };
+
+  private readonly translationService = new TranslationService();
+
+  public readonly rateLimits: RateLimits = {
+    requestsPerSecond: 5,
+    tokensPerMinute: Infinity,
+    maxConcurrency: 4,
+  };
+
+  public isConfigured(): boolean {
+    return true;
+  }
+
+  public async translate(
+    request: ProviderTranslationRequest
+  ): Promise<ProviderTranslationResult> {
+    const result = await this.translationService.translate({
+      text: request.text,
+      targetLanguage: request.targetLanguage,
+      originLanguage: request.originLanguage,
+      doNotTranslate: request.glossary?.doNotTranslate,
+      signal: request.signal,
+    });
+    return { translatedText: result.translatedText, provider: this.id, model: "translate_a/single" };
+  }
+}
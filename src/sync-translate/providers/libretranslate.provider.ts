@@ -0,0 +1,89 @@
+import { DiscordSyntaxService } from "../discord-syntax.service";
+import type {
+  ProviderCapabilities,
+  ProviderTranslationRequest,
+  ProviderTranslationResult,
+  TranslationProvider,
+} from "./translation-provider";
+import type { RateLimits } from "./rate-limiter";
+
+// LibreTranslate names a few languages differently
+const LIBRETRANSLATE_LANGUAGES: { [language: string]: string } = {
+  "zh-cn": "zh",
+  "zh-tw": "zt",
+  no: "nb",
+};
+
+interface LibreTranslateResponse {
+  translatedText?: string;
+  error?: string;
+}
+
+// Self-hosted instance configured with LIBRETRANSLATE_URL
+export class LibreTranslateTranslationProvider implements TranslationProvider {
+  public readonly id = "libretranslate";
+  public readonly name = "LibreTranslate";
+  public readonly capabilities: ProviderCapabilities = {
+    languages: "all", // Depends on the models installed on the instance
+    maxTextLength: 5000,
+    supportsContext: false,
+    supportsGlossary: false,
+    supportsBatch: false,
+  };
+
+  public readonly rateLimits: RateLimits = {
+    requestsPerSecond: 2,
+    tokensPerMinute: Infinity,
+    maxConcurrency: 2,
+  };
+
+  public isConfigured(): boolean {
+    return !!process.env.LIBRETRANSLATE_URL;
+  }
+
+  private toLibreLanguage(language: string): string {
+    const code = language.toLowerCase();
+    return LIBRETRANSLATE_LANGUAGES[code] ?? code;
+  }
+
+  public async translate(
+    request: ProviderTranslationRequest
+  ): Promise<ProviderTranslationResult> {
+    const baseUrl = process.env.LIBRETRANSLATE_URL;
+    if (!baseUrl) {
+      throw new Error("LIBRETRANSLATE_URL environment variable is required");
+    }
+
+    const protection = DiscordSyntaxService.protect(
+      request.text,
+      request.glossary?.doNotTranslate
+    );
+
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/translate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        q: protection.protectedText,
+        source: request.originLanguage ? this.toLibreLanguage(request.originLanguage) : "auto",
+        target: this.toLibreLanguage(request.targetLanguage),
+        format: "text",
+        api_key: process.env.LIBRETRANSLATE_API_KEY,
+      }),
+      signal: request.signal,
+    });
+
+    const data = (await response.json().catch(() => ({}))) as LibreTranslateResponse;
+    if (!response.ok) {
+      throw new Error(`LibreTranslate HTTP ${response.status}: ${data.error ?? response.statusText}`);
+    }
+
+    if (!data.translatedText) {
+      throw new Error("LibreTranslate returned an empty translation");
+    }
+
+    return {
+      translatedText: DiscordSyntaxService.restore(data.translatedText, protection),
+      provider: this.id,
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import { TranslateLLMService } from "../translate-llm.service";
+import type {
+  ProviderBatchTranslationRequest,
+  ProviderBatchTranslationResult,
+  ProviderCapabilities,
+  ProviderTranslationRequest,
+  ProviderTranslationResult,
+  TranslationProvider,
+} from "./translation-provider";
+import type { RateLimits } from "./rate-limiter";
+
+export class MistralTranslationProvider implements TranslationProvider {
+  public readonly id = "mistral";
+  public readonly name = "Mistral";
+  public readonly capabilities: ProviderCapabilities = {
+    languages: "all",
+    maxTextLength: 1500, // Longer texts are chunked so each translation fits the output token limit
+    supportsContext: true,
+    supportsGlossary: true,
+    supportsBatch: true,
+  };
+
+  // Free tier allows one request per second
+  public readonly rateLimits: RateLimits = {
+    requestsPerSecond: 1,
+    tokensPerMinute: 500000,
+    maxConcurrency: 4,
+  };
+
+  public isConfigured(): boolean {
+    return !!process.env.MISTRAL_API_KEY;
+  }
+
+  public async translate(
+    request: ProviderTranslationRequest
+  ): Promise<ProviderTranslationResult> {
+    const result = await TranslateLLMService.translate(request);
+    return { translatedText: result.translatedText, provider: this.id, model: result.model };
+  }
+
+  public async translateBatch(
+    request: ProviderBatchTranslationRequest
+  ): Promise<ProviderBatchTranslationResult> {
+    const result = await TranslateLLMService.translateBatch(request);
+    return {
+      translations: result.translations,
+      failedLanguages: result.failedLanguages,
+      provider: this.id,
+      model: result.model,
+      error: result.error,
+    };
+  }
+
+  public canTranslateBatch(request: ProviderBatchTranslationRequest): boolean {
+    const languageCount = new Set(
+      request.targetLanguages.map((language) => language.toLowerCase())
+    ).size;
+    return TranslateLLMService.fitsBatchOutput(request.text, languageCount);
+  }
+}
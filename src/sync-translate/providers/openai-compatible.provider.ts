@@ -0,0 +1,45 @@
+import { TranslateLLMService } from "../translate-llm.service";
+import type {
+  ProviderCapabilities,
+  ProviderTranslationRequest,
+  ProviderTranslationResult,
+  TranslationProvider,
+} from "./translation-provider";
+import type { RateLimits } from "./rate-limiter";
+
+// Self-hosted or third party model behind an OpenAI-compatible API, such as
+// Ollama, llama.cpp server or vLLM
+export class OpenAICompatibleTranslationProvider implements TranslationProvider {
+  public readonly id = "openai";
+  public readonly name = "OpenAI-compatible";
+  public readonly capabilities: ProviderCapabilities = {
+    languages: "all",
+    maxTextLength: 1500, // Longer texts are chunked so each translation fits the output token limit
+    supportsContext: true,
+    supportsGlossary: true,
+    supportsBatch: false,
+  };
+
+  // Local servers usually run one generation at a time
+  public readonly rateLimits: RateLimits = {
+    requestsPerSecond: 10,
+    tokensPerMinute: Infinity,
+    maxConcurrency: 1,
+  };
+
+  public isConfigured(): boolean {
+    const backend = TranslateLLMService.getOpenAICompatibleBackend();
+    return !!backend.baseUrl && !!backend.model;
+  }
+
+  public async translate(
+    request: ProviderTranslationRequest
+  ): Promise<ProviderTranslationResult> {
+    // The backend's own model wins over the Mistral model setting of the group
+    const result = await TranslateLLMService.translate({
+      ...request,
+      backend: TranslateLLMService.getOpenAICompatibleBackend(),
+    });
+    return { translatedText: result.translatedText, provider: this.id, model: result.model };
+  }
+}
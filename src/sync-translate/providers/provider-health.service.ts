@@ -0,0 +1,127 @@
+// closed: requests go through, open: provider is skipped, half-open: one probe is let through
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface ProviderHealth {
+  providerId: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  cooldownMs: number;
+  openedAt?: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+}
+
+interface HealthEntry extends ProviderHealth {
+  probeInFlight: boolean;
+}
+
+export class ProviderHealthService {
+  public static readonly FAILURE_THRESHOLD = 3;
+  private static readonly INITIAL_COOLDOWN_MS = 30 * 1000; // 30 seconds
+  private static readonly MAX_COOLDOWN_MS = 10 * 60 * 1000; // 10 minutes
+
+  private static entries = new Map<string, HealthEntry>();
+
+  private static getEntry(providerId: string): HealthEntry {
+    let entry = this.entries.get(providerId);
+    if (!entry) {
+      entry = {
+        providerId,
+        state: "closed",
+        consecutiveFailures: 0,
+        totalSuccesses: 0,
+        totalFailures: 0,
+        cooldownMs: this.INITIAL_COOLDOWN_MS,
+        probeInFlight: false,
+      };
+      this.entries.set(providerId, entry);
+    }
+    return entry;
+  }
+
+  // Returns false while the circuit is open. Once the cooldown is over a single
+  // caller gets through as the probe, it must report back with recordSuccess or recordFailure
+  public static tryAcquire(providerId: string): boolean {
+    const entry = this.getEntry(providerId);
+
+    if (entry.state === "open" && Date.now() - entry.openedAt! >= entry.cooldownMs) {
+      entry.state = "half-open";
+      console.log(`Circuit of translation provider ${providerId} is half-open, probing`);
+    }
+
+    if (entry.state === "half-open") {
+      if (entry.probeInFlight) {
+        return false;
+      }
+      entry.probeInFlight = true;
+      return true;
+    }
+
+    return entry.state === "closed";
+  }
+
+  public static isProbing(providerId: string): boolean {
+    return this.getEntry(providerId).state === "half-open";
+  }
+
+  public static recordSuccess(providerId: string): void {
+    const entry = this.getEntry(providerId);
+
+    if (entry.state !== "closed") {
+      console.log(`Circuit of translation provider ${providerId} closed again`);
+    }
+
+    entry.state = "closed";
+    entry.consecutiveFailures = 0;
+    entry.cooldownMs = this.INITIAL_COOLDOWN_MS;
+    entry.probeInFlight = false;
+    entry.totalSuccesses++;
+    entry.lastSuccessAt = Date.now();
+  }
+
+  public static recordFailure(providerId: string, error: unknown): void {
+    const entry = this.getEntry(providerId);
+
+    entry.consecutiveFailures++;
+    entry.totalFailures++;
+    entry.lastFailureAt = Date.now();
+    entry.lastError = error instanceof Error ? error.message : String(error);
+
+    if (entry.state === "half-open") {
+      // A failed probe waits twice as long before the next one
+      entry.cooldownMs = Math.min(entry.cooldownMs * 2, this.MAX_COOLDOWN_MS);
+      this.open(entry);
+    } else if (
+      entry.state === "closed" &&
+      entry.consecutiveFailures >= this.FAILURE_THRESHOLD
+    ) {
+      this.open(entry);
+    }
+  }
+
+  // A cancelled probe tells nothing about the provider, the next caller probes instead
+  public static releaseProbe(providerId: string): void {
+    this.getEntry(providerId).probeInFlight = false;
+  }
+
+  private static open(entry: HealthEntry): void {
+    entry.state = "open";
+    entry.openedAt = Date.now();
+    entry.probeInFlight = false;
+    console.warn(
+      `Circuit of translation provider ${entry.providerId} opened for ${Math.round(entry.cooldownMs / 1000)}s after ${entry.consecutiveFailures} failures: ${entry.lastError}`
+    );
+  }
+
+  public static reset(providerId: string): void {
+    this.entries.delete(providerId);
+  }
+
+  public static getHealth(providerId: string): ProviderHealth {
+    const { probeInFlight: _probeInFlight, ...health } = this.getEntry(providerId);
+    return health;
+  }
+}
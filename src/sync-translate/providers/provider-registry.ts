@@ -0,0 +1,309 @@
+import { LanguageService } from "../languages";
+import { DiscordSyntaxService } from "../discord-syntax.service";
+import { TranslateLLMService } from "../translate-llm.service";
+import { DeepLTranslationProvider } from "./deepl.provider";
+import { GoogleTranslationProvider } from "./google.provider";
+import { LibreTranslateTranslationProvider } from "./libretranslate.provider";
+import { MistralTranslationProvider } from "./mistral.provider";
+import { OpenAICompatibleTranslationProvider } from "./openai-compatible.provider";
+import { ProviderHealthService, type ProviderHealth } from "./provider-health.service";
+import { RateLimiter, type RateLimiterStats, type RateLimits } from "./rate-limiter";
+import type {
+  ProviderBatchTranslationRequest,
+  ProviderBatchTranslationResult,
+  ProviderCapabilities,
+  ProviderTranslationRequest,
+  ProviderTranslationResult,
+  TranslationProvider,
+} from "./translation-provider";
+
+export interface ChainTranslationResult extends ProviderTranslationResult {
+  fallback: boolean; // Produced by a provider after the first one in the chain
+}
+
+export interface ProviderInfo {
+  id: string;
+  name: string;
+  configured: boolean;
+  capabilities: ProviderCapabilities;
+  health: ProviderHealth;
+  rateLimit: RateLimiterStats;
+}
+
+export class TranslationProviderRegistry {
+  public static readonly DEFAULT_CHAIN = ["mistral", "google"];
+  private static readonly PROMPT_OVERHEAD_TOKENS = 500;
+  private static readonly CHARS_PER_TOKEN = 4;
+
+  private static limiters = new Map<string, RateLimiter>();
+
+  private static providers = new Map<string, TranslationProvider>(
+    [
+      new MistralTranslationProvider(),
+      new DeepLTranslationProvider(),
+      new LibreTranslateTranslationProvider(),
+      new GoogleTranslationProvider(),
+      new OpenAICompatibleTranslationProvider(),
+    ].map((provider) => [provider.id, provider])
+  );
+
+  public static register(provider: TranslationProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  public static get(id: string): TranslationProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  public static getProviderIds(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  public static getProviderInfo(): ProviderInfo[] {
+    return [...this.providers.values()].map((provider) => ({
+      id: provider.id,
+      name: provider.name,
+      configured: provider.isConfigured(),
+      capabilities: provider.capabilities,
+      health: ProviderHealthService.getHealth(provider.id),
+      rateLimit: this.getLimiter(provider).getStats(),
+    }));
+  }
+
+  public static getRateLimitStats(): { [providerId: string]: RateLimiterStats } {
+    return Object.fromEntries(
+      [...this.providers.values()].map((provider) => [
+        provider.id,
+        this.getLimiter(provider).getStats(),
+      ])
+    );
+  }
+
+  private static getLimiter(provider: TranslationProvider): RateLimiter {
+    let limiter = this.limiters.get(provider.id);
+    if (!limiter) {
+      limiter = new RateLimiter(this.resolveRateLimits(provider));
+      this.limiters.set(provider.id, limiter);
+    }
+    return limiter;
+  }
+
+  // e.g. TRANSLATION_MISTRAL_REQUESTS_PER_SECOND, TRANSLATION_MISTRAL_TOKENS_PER_MINUTE
+  // and TRANSLATION_MISTRAL_MAX_CONCURRENCY
+  private static resolveRateLimits(provider: TranslationProvider): RateLimits {
+    const prefix = `TRANSLATION_${provider.id.toUpperCase()}`;
+    const read = (name: string, fallback: number): number => {
+      const value = Number(process.env[`${prefix}_${name}`]);
+      return process.env[`${prefix}_${name}`] && value > 0 ? value : fallback;
+    };
+
+    return {
+      requestsPerSecond: read("REQUESTS_PER_SECOND", provider.rateLimits.requestsPerSecond),
+      tokensPerMinute: read("TOKENS_PER_MINUTE", provider.rateLimits.tokensPerMinute),
+      maxConcurrency: Math.max(
+        1,
+        Math.floor(read("MAX_CONCURRENCY", provider.rateLimits.maxConcurrency))
+      ),
+    };
+  }
+
+  // Rough count of prompt and completion tokens, only used for rate limiting
+  private static estimateTokens(
+    request: Pick<ProviderTranslationRequest, "text" | "contextMessages">,
+    languages = 1
+  ): number {
+    const contextChars = (request.contextMessages ?? []).reduce(
+      (sum, msg) => sum + Math.min(msg.content.length, 200),
+      0
+    );
+    return Math.ceil(
+      this.PROMPT_OVERHEAD_TOKENS +
+        (request.text.length * (1 + languages) + contextChars) / this.CHARS_PER_TOKEN
+    );
+  }
+
+  public static supportsLanguage(provider: TranslationProvider, language: string): boolean {
+    const { languages } = provider.capabilities;
+    return languages === "all"
+      ? LanguageService.isLanguageSupported(language)
+      : languages.includes(language.toLowerCase());
+  }
+
+  public static canTranslate(
+    provider: TranslationProvider,
+    request: Pick<ProviderTranslationRequest, "text" | "targetLanguage">
+  ): boolean {
+    return (
+      provider.isConfigured() &&
+      this.supportsLanguage(provider, request.targetLanguage)
+    );
+  }
+
+  // Context is only worth fetching when a provider of the chain reads it
+  public static usesContext(chain: string[]): boolean {
+    return chain.some((id) => this.get(id)?.capabilities.supportsContext);
+  }
+
+  // Batches only go to the first provider, fallbacks translate one by one
+  public static getBatchProvider(chain: string[]): TranslationProvider | null {
+    const provider = chain[0] ? this.get(chain[0]) : undefined;
+    return provider?.translateBatch &&
+      provider.capabilities.supportsBatch &&
+      provider.isConfigured()
+      ? provider
+      : null;
+  }
+
+  // Returns null when the batch provider is unavailable, callers then translate one by one
+  public static async translateBatch(
+    chain: string[],
+    request: ProviderBatchTranslationRequest
+  ): Promise<ProviderBatchTranslationResult | null> {
+    const provider = this.getBatchProvider(chain);
+    // Long texts are split into chunks, which only the single language path does,
+    // and batches that would hit the output limit go straight to it too
+    if (
+      !provider?.translateBatch ||
+      request.text.length > provider.capabilities.maxTextLength ||
+      (provider.canTranslateBatch && !provider.canTranslateBatch(request)) ||
+      !ProviderHealthService.tryAcquire(provider.id)
+    ) {
+      return null;
+    }
+
+    try {
+      const result = await this.getLimiter(provider).schedule(
+        request.guildId ?? "global",
+        this.estimateTokens(request, request.targetLanguages.length),
+        () => provider.translateBatch!(request),
+        request.signal
+      );
+
+      // Only a request that failed as a whole counts against the provider, unusable
+      // output is classified the same way as in translate()
+      if (result.error !== undefined && !this.isOutputError(result.error)) {
+        ProviderHealthService.recordFailure(provider.id, result.error);
+      } else {
+        ProviderHealthService.recordSuccess(provider.id);
+      }
+      return result;
+    } catch (error) {
+      if (request.signal?.aborted) {
+        ProviderHealthService.releaseProbe(provider.id);
+      } else if (this.isOutputError(error)) {
+        ProviderHealthService.recordSuccess(provider.id);
+      } else {
+        ProviderHealthService.recordFailure(provider.id, error);
+      }
+      throw error;
+    }
+  }
+
+  public static async translate(
+    chain: string[],
+    request: ProviderTranslationRequest
+  ): Promise<ChainTranslationResult> {
+    const errors: string[] = [];
+
+    for (const [index, id] of chain.entries()) {
+      const provider = this.get(id);
+      if (!provider) {
+        errors.push(`${id}: unknown provider`);
+        continue;
+      }
+
+      if (!this.canTranslate(provider, request)) {
+        errors.push(`${id}: not configured or unable to translate this request`);
+        continue;
+      }
+
+      // Skip providers with an open circuit right away instead of waiting for retries
+      if (!ProviderHealthService.tryAcquire(id)) {
+        errors.push(`${id}: circuit open`);
+        continue;
+      }
+
+      const providerRequest: ProviderTranslationRequest = {
+        ...request,
+        contextMessages: provider.capabilities.supportsContext
+          ? request.contextMessages
+          : undefined,
+        // A probe should tell quickly whether the provider is back
+        maxAttempts: ProviderHealthService.isProbing(id) ? 1 : request.maxAttempts,
+      };
+
+      try {
+        const result = await this.translateInChunks(provider, providerRequest);
+        ProviderHealthService.recordSuccess(id);
+        return { ...result, fallback: index > 0 };
+      } catch (error) {
+        // Cancelled work is not the provider's fault and there is no point in falling back
+        if (request.signal?.aborted) {
+          ProviderHealthService.releaseProbe(id);
+          throw error;
+        }
+
+        // The provider answered, only its output was unusable, so it stays healthy
+        if (this.isOutputError(error)) {
+          ProviderHealthService.recordSuccess(id);
+        } else {
+          ProviderHealthService.recordFailure(id, error);
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Translation provider ${provider.name} failed:`, message);
+        errors.push(`${id}: ${message}`);
+      }
+    }
+
+    throw new Error(`All translation providers failed (${errors.join("; ")})`);
+  }
+
+  // Errors about the content of an answer, the provider itself is reachable
+  private static isOutputError(error: unknown): boolean {
+    return (
+      DiscordSyntaxService.isPlaceholderError(error) ||
+      TranslateLLMService.isOutputLimitError(error)
+    );
+  }
+
+  // Texts longer than the provider accepts are split at paragraph and sentence
+  // boundaries and translated one chunk after the other with the same context
+  private static async translateInChunks(
+    provider: TranslationProvider,
+    request: ProviderTranslationRequest
+  ): Promise<ProviderTranslationResult> {
+    const chunks = DiscordSyntaxService.splitText(
+      request.text,
+      provider.capabilities.maxTextLength
+    );
+    let result: ProviderTranslationResult | undefined;
+    const translated: string[] = [];
+
+    for (const chunk of chunks) {
+      // Chunks with only code or links in them are kept as they are
+      if (chunks.length > 1 && !DiscordSyntaxService.hasTranslatableText(chunk)) {
+        translated.push(chunk);
+        continue;
+      }
+
+      const chunkRequest = { ...request, text: chunk.trim() };
+      result = await this.getLimiter(provider).schedule(
+        request.guildId ?? "global",
+        this.estimateTokens(chunkRequest),
+        () => provider.translate(chunkRequest),
+        request.signal
+      );
+
+      // Providers trim their output, the whitespace between chunks is put back
+      const leading = chunk.match(/^\s*/)![0];
+      const trailing = chunk.slice(leading.length).match(/\s*$/)![0];
+      translated.push(leading + result.translatedText + trailing);
+    }
+
+    return {
+      translatedText: chunks.length > 1 ? translated.join("") : result!.translatedText,
+      provider: provider.id,
+      model: result?.model,
+    };
+  }
+}
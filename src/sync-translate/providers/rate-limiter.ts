@@ -0,0 +1,181 @@
+export interface RateLimits {
+  requestsPerSecond: number;
+  tokensPerMinute: number; // Infinity when the provider has no token limit
+  maxConcurrency: number;
+}
+
+export interface RateLimiterStats extends RateLimits {
+  active: number;
+  queued: number;
+  queuedByGuild: { [guildId: string]: number };
+  availableRequests: number;
+  availableTokens: number;
+  started: number;
+  averageWaitMs: number;
+}
+
+interface ScheduledJob {
+  estimatedTokens: number;
+  enqueuedAt: number;
+  run: () => void;
+}
+
+// Token buckets for requests and LLM tokens, a bounded pool of running requests
+// and round-robin between guilds so one busy guild can't starve the others
+export class RateLimiter {
+  private readonly queues = new Map<string, ScheduledJob[]>(); // guildId -> jobs, in turn order
+  private readonly requestCapacity: number;
+  private availableRequests: number;
+  private availableTokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private started = 0;
+  private totalWaitMs = 0;
+
+  constructor(private readonly limits: RateLimits) {
+    this.requestCapacity = Math.max(1, limits.requestsPerSecond);
+    this.availableRequests = this.requestCapacity;
+    this.availableTokens = limits.tokensPerMinute;
+  }
+
+  // An aborted signal takes the job out of the queue, running tasks have to watch it themselves
+  public schedule<T>(
+    guildId: string,
+    estimatedTokens: number,
+    task: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        const queue = this.queues.get(guildId);
+        const index = queue?.indexOf(job) ?? -1;
+        if (queue && index >= 0) {
+          queue.splice(index, 1);
+          if (queue.length === 0) {
+            this.queues.delete(guildId);
+          }
+          reject(signal!.reason);
+          this.pump();
+        }
+      };
+
+      const job: ScheduledJob = {
+        // A request larger than the whole bucket would otherwise wait forever
+        estimatedTokens: Math.min(estimatedTokens, this.limits.tokensPerMinute),
+        enqueuedAt: Date.now(),
+        run: () => {
+          signal?.removeEventListener("abort", onAbort);
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.pump();
+            });
+        },
+      };
+
+      const queue = this.queues.get(guildId);
+      if (queue) {
+        queue.push(job);
+      } else {
+        this.queues.set(guildId, [job]);
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.pump();
+    });
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedMs = now - this.lastRefill;
+    this.lastRefill = now;
+
+    this.availableRequests = Math.min(
+      this.requestCapacity,
+      this.availableRequests + (elapsedMs * this.limits.requestsPerSecond) / 1000
+    );
+
+    if (Number.isFinite(this.limits.tokensPerMinute)) {
+      this.availableTokens = Math.min(
+        this.limits.tokensPerMinute,
+        this.availableTokens + (elapsedMs * this.limits.tokensPerMinute) / 60000
+      );
+    }
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.active < this.limits.maxConcurrency) {
+      const next = this.queues.entries().next();
+      if (next.done) {
+        return;
+      }
+
+      const [guildId, queue] = next.value;
+      const job = queue[0]!;
+      this.refill();
+
+      if (this.availableRequests < 1 || this.availableTokens < job.estimatedTokens) {
+        const waitMs = Math.max(
+          ((1 - this.availableRequests) * 1000) / this.limits.requestsPerSecond,
+          Number.isFinite(this.limits.tokensPerMinute)
+            ? ((job.estimatedTokens - this.availableTokens) * 60000) / this.limits.tokensPerMinute
+            : 0
+        );
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.pump();
+        }, Math.max(1, Math.ceil(waitMs)));
+        return;
+      }
+
+      this.availableRequests -= 1;
+      this.availableTokens -= job.estimatedTokens;
+
+      // Move the guild to the back so the next one gets its turn
+      queue.shift();
+      this.queues.delete(guildId);
+      if (queue.length > 0) {
+        this.queues.set(guildId, queue);
+      }
+
+      this.active++;
+      this.started++;
+      this.totalWaitMs += Date.now() - job.enqueuedAt;
+      job.run();
+    }
+  }
+
+  public getStats(): RateLimiterStats {
+    this.refill();
+
+    const queuedByGuild: { [guildId: string]: number } = {};
+    let queued = 0;
+    for (const [guildId, queue] of this.queues) {
+      queuedByGuild[guildId] = queue.length;
+      queued += queue.length;
+    }
+
+    return {
+      ...this.limits,
+      active: this.active,
+      queued,
+      queuedByGuild,
+      availableRequests: Math.floor(this.availableRequests),
+      availableTokens: Math.floor(this.availableTokens),
+      started: this.started,
+      averageWaitMs: this.started > 0 ? Math.round(this.totalWaitMs / this.started) : 0,
+    };
+  }
+}
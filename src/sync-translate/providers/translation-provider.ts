@@ -0,0 +1,60 @@
+import type { Message } from "discord.js";
+import type { TranslationGlossary } from "../translate-llm.service";
+import type { RateLimits } from "./rate-limiter";
+
+export interface ProviderCapabilities {
+  languages: string[] | "all"; // Supported target language codes
+  maxTextLength: number; // Longer texts are translated in chunks of this size
+  supportsContext: boolean; // Uses recent messages to translate
+  supportsGlossary: boolean; // Follows fixed glossary translations
+  supportsBatch: boolean; // Translates into several languages with one request
+}
+
+export interface ProviderTranslationRequest {
+  text: string;
+  targetLanguage: string;
+  originLanguage?: string;
+  contextMessages?: Message[];
+  model?: string;
+  formality?: "default" | "formal" | "informal";
+  glossary?: TranslationGlossary;
+  guildId?: string; // Requests are scheduled fairly between guilds
+  maxAttempts?: number; // Providers that retry on their own stop after this many attempts
+  signal?: AbortSignal; // Cancels the request, also while it waits for rate limits
+}
+
+export interface ProviderBatchTranslationRequest
+  extends Omit<ProviderTranslationRequest, "targetLanguage" | "glossary" | "maxAttempts"> {
+  targetLanguages: string[];
+  glossaries?: { [language: string]: TranslationGlossary };
+}
+
+export interface ProviderTranslationResult {
+  translatedText: string;
+  provider: string; // ID of the provider that produced the text
+  model?: string;
+}
+
+export interface ProviderBatchTranslationResult {
+  translations: { [language: string]: string };
+  failedLanguages: string[];
+  provider: string;
+  model?: string;
+  error?: unknown; // Why the whole request failed, unset when the provider answered
+}
+
+export interface TranslationProvider {
+  readonly id: string; // Used in the providers setting of a group
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+  readonly rateLimits: RateLimits; // Defaults, can be overridden with environment variables
+
+  // Missing API keys or endpoints make a provider unavailable
+  isConfigured(): boolean;
+  translate(request: ProviderTranslationRequest): Promise<ProviderTranslationResult>;
+  translateBatch?(
+    request: ProviderBatchTranslationRequest
+  ): Promise<ProviderBatchTranslationResult>;
+  // Whether all translations of the batch fit into one answer
+  canTranslateBatch?(request: ProviderBatchTranslationRequest): boolean;
+}
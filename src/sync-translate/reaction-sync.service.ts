@@ -0,0 +1,221 @@
+import {
+  Guild,
+  Message,
+  MessageReaction,
+  TextChannel,
+  type PartialMessageReaction,
+  type PartialUser,
+  type User,
+} from "discord.js";
+import { MessageLinkService, type MessageLink } from "./message-link.service";
+import { EmojiSyncService } from "./emoji-sync.service";
+
+interface MessageCopy {
+  channelId: string;
+  messageId: string;
+}
+
+export class ReactionSyncService {
+  // `${targetGuildId}_${emojiId}` -> emoji identifier usable for reactions in that guild
+  private static resolvedEmojis = new Map<string, string | null>();
+
+  public static async handleReactionAdd(
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser
+  ): Promise<void> {
+    const context = await this.resolveContext(reaction, user);
+    if (!context) return;
+
+    const { fullReaction, message, link } = context;
+
+    for (const copy of this.getOtherCopies(link, message.id)) {
+      try {
+        const targetMessage = await this.fetchCopy(message, copy);
+        if (!targetMessage) continue;
+
+        const identifier = await this.resolveEmojiForGuild(
+          fullReaction,
+          message.guild,
+          targetMessage.guild
+        );
+        if (!identifier) {
+          console.warn(
+            `Reaction ${fullReaction.emoji.name} is not available in guild ${targetMessage.guild?.name}, skipping`
+          );
+          continue;
+        }
+
+        // Reacting again with the same emoji is a no-op, so this is safe to repeat
+        await targetMessage.react(identifier);
+      } catch (error) {
+        console.error(
+          `Failed to mirror reaction to message ${copy.messageId} in channel ${copy.channelId}:`,
+          error
+        );
+      }
+    }
+  }
+
+  public static async handleReactionRemove(
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser
+  ): Promise<void> {
+    const context = await this.resolveContext(reaction, user);
+    if (!context) return;
+
+    const { fullReaction, message, link } = context;
+    const botUserId = message.client.user.id;
+
+    // Fetch every copy along with the emoji identifier used on it
+    const copies: Array<{ message: Message; identifier: string }> = [];
+    const ownIdentifier = fullReaction.emoji.id || fullReaction.emoji.name;
+    if (ownIdentifier) {
+      copies.push({ message, identifier: ownIdentifier });
+    }
+
+    for (const copy of this.getOtherCopies(link, message.id)) {
+      const targetMessage = await this.fetchCopy(message, copy);
+      if (!targetMessage) continue;
+
+      const identifier = await this.resolveEmojiForGuild(
+        fullReaction,
+        message.guild,
+        targetMessage.guild
+      );
+      if (identifier) {
+        copies.push({ message: targetMessage, identifier });
+      }
+    }
+
+    // Votes are aggregated: keep the bot's reactions while anyone still reacts on any copy
+    const remainingVotes = copies.reduce((total, copy) => {
+      const copyReaction = copy.message.reactions.resolve(copy.identifier);
+      if (!copyReaction) return total;
+      return total + copyReaction.count - (copyReaction.me ? 1 : 0);
+    }, 0);
+
+    if (remainingVotes > 0) {
+      return;
+    }
+
+    for (const copy of copies) {
+      try {
+        const copyReaction = copy.message.reactions.resolve(copy.identifier);
+        if (copyReaction?.me) {
+          await copyReaction.users.remove(botUserId);
+        }
+      } catch (error) {
+        console.error(
+          `Failed to remove mirrored reaction from message ${copy.message.id}:`,
+          error
+        );
+      }
+    }
+  }
+
+  private static async resolveContext(
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser
+  ): Promise<{
+    fullReaction: MessageReaction;
+    message: Message;
+    link: MessageLink;
+  } | null> {
+    const fullUser = user.partial ? await user.fetch() : user;
+
+    // Ignore our own mirrored reactions and other bots to prevent loops
+    if (fullUser.bot) {
+      return null;
+    }
+
+    const fullReaction = reaction.partial ? await reaction.fetch() : reaction;
+    const message = fullReaction.message.partial
+      ? await fullReaction.message.fetch()
+      : fullReaction.message;
+
+    if (!message.guild) {
+      return null;
+    }
+
+    const link = await MessageLinkService.findLinkByMessageId(message.id);
+    if (!link) {
+      return null;
+    }
+
+    return { fullReaction, message, link };
+  }
+
+  private static getOtherCopies(
+    link: MessageLink,
+    messageId: string
+  ): MessageCopy[] {
+    const copies: MessageCopy[] = [
+      { channelId: link.sourceChannelId, messageId: link.sourceMessageId },
+      ...link.mirrors.map((m) => ({
+        channelId: m.channelId,
+        messageId: m.messageId,
+      })),
+    ];
+
+    return copies.filter((copy) => copy.messageId !== messageId);
+  }
+
+  private static async fetchCopy(
+    message: Message,
+    copy: MessageCopy
+  ): Promise<Message | null> {
+    try {
+      const channel = (await message.client.channels.fetch(
+        copy.channelId
+      )) as TextChannel;
+      return await channel.messages.fetch(copy.messageId);
+    } catch (error) {
+      console.warn(
+        `Could not fetch mirrored message ${copy.messageId} in channel ${copy.channelId}:`,
+        error
+      );
+      return null;
+    }
+  }
+
+  private static async resolveEmojiForGuild(
+    reaction: MessageReaction,
+    sourceGuild: Guild | null,
+    targetGuild: Guild | null
+  ): Promise<string | null> {
+    const emoji = reaction.emoji;
+
+    // Unicode emoji work everywhere
+    if (!emoji.id) {
+      return emoji.name;
+    }
+
+    // The bot can react with any custom emoji from a guild it is in
+    if (reaction.client.emojis.cache.has(emoji.id)) {
+      return emoji.id;
+    }
+
+    if (!sourceGuild || !targetGuild) {
+      return null;
+    }
+
+    const cacheKey = `${targetGuild.id}_${emoji.id}`;
+    if (this.resolvedEmojis.has(cacheKey)) {
+      return this.resolvedEmojis.get(cacheKey)!;
+    }
+
+    // Clone it into the target guild. Unlike message emojis, no cleanup is scheduled
+    // because the reaction disappears with the emoji; shutdown cleanup still removes it.
+    const emojiText = `<${emoji.animated ? "a" : ""}:${emoji.name}:${emoji.id}>`;
+    const { processedContent } = await EmojiSyncService.extractAndCloneEmojis(
+      emojiText,
+      sourceGuild,
+      targetGuild
+    );
+    const match = processedContent.match(/<a?:[^:]+:(\d+)>/);
+    const identifier = match && match[1] ? match[1] : null;
+
+    this.resolvedEmojis.set(cacheKey, identifier);
+    return identifier;
+  }
+}
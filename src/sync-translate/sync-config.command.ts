@@ -0,0 +1,264 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  ChannelType,
+  EmbedBuilder,
+  PermissionFlagsBits,
+  type InteractionReplyOptions,
+} from 'discord.js';
+import { SyncStorageService } from './sync-storage.service';
+import { SyncTopologyService } from './sync-topology.service';
+import { SyncSettingsService, type SettingKey, type TranslationSettings } from './sync-settings.service';
+import { ChannelUtils } from '../utils/channel.utils';
+import { InteractionUtils } from '../utils/interaction.utils';
+
+const EMBED_COLOR = 0x5865f2;
+
+const SETTING_CHOICES = SyncSettingsService.getSettingKeys().map(key => ({
+  name: SyncSettingsService.getLabel(key),
+  value: key
+}));
+
+function formatSettingLine(
+  key: SettingKey,
+  settings: TranslationSettings,
+  source: string
+): string {
+  const value = SyncSettingsService.serializeValue(key, settings[key]);
+  return `**${SyncSettingsService.getLabel(key)}:** \`${value}\` · *${source}*`;
+}
+
+async function executeView(interaction: ChatInputCommandInteraction, serverId: string) {
+  const groupId = interaction.options.getString('group');
+
+  if (groupId) {
+    const group = await SyncStorageService.getGroup(serverId, groupId);
+    if (!group) {
+      await interaction.reply({
+        content: `❌ Sync group **${groupId}** does not exist.`,
+        flags: ['Ephemeral']
+      } as InteractionReplyOptions);
+      return;
+    }
+
+    const stored = (await SyncStorageService.getAllSettings()).groups[group.id] ?? {};
+    const groupSettings = SyncSettingsService.parseStoredSettings(stored);
+    const settings = SyncSettingsService.resolve(groupSettings);
+
+    const embed = new EmbedBuilder()
+      .setTitle(`Settings of sync group: ${groupId}`)
+      .setColor(EMBED_COLOR)
+      .setDescription(
+        SyncSettingsService.getSettingKeys()
+          .map(key => formatSettingLine(key, settings, key in groupSettings ? 'group' : 'default'))
+          .join('\n')
+      );
+
+    await interaction.reply({ embeds: [embed], flags: ['Ephemeral'] } as InteractionReplyOptions);
+    return;
+  }
+
+  const channelId = ChannelUtils.resolveSyncChannelId(interaction);
+  const topology = channelId ? SyncTopologyService.getChannel(serverId, channelId) : null;
+
+  if (!channelId || !topology) {
+    await interaction.reply({
+      content: '❌ This channel is not part of any sync group. Pass `group` to view the settings of a group.',
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  const group = topology.groups[0];
+  const settings = SyncTopologyService.getSettings(channelId);
+
+  const embed = new EmbedBuilder()
+    .setTitle('Translation settings')
+    .setColor(EMBED_COLOR)
+    .setDescription(
+      `<#${channelId}> · group **${group?.groupId}**\n\n` +
+      SyncSettingsService.getSettingKeys()
+        .map(key => {
+          const source = key in topology.overrides ? 'channel' : group && key in group.settings ? 'group' : 'default';
+          return formatSettingLine(key, settings, source);
+        })
+        .join('\n')
+    );
+
+  await interaction.reply({ embeds: [embed], flags: ['Ephemeral'] } as InteractionReplyOptions);
+}
+
+async function executeUpdate(
+  interaction: ChatInputCommandInteraction,
+  serverId: string,
+  reset: boolean
+) {
+  const key = interaction.options.getString('setting', true);
+  const groupId = interaction.options.getString('group');
+
+  if (!SyncSettingsService.isSettingKey(key)) {
+    await interaction.reply({
+      content: `❌ \`${key}\` is not a known setting.`,
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  let storedValue: string | null = null;
+  if (!reset) {
+    try {
+      const value = SyncSettingsService.parseValue(key, interaction.options.getString('value', true));
+      storedValue = SyncSettingsService.serializeValue(key, value);
+    } catch (error) {
+      await interaction.reply({
+        content: `❌ ${error instanceof Error ? error.message : 'Invalid value.'}`,
+        flags: ['Ephemeral']
+      } as InteractionReplyOptions);
+      return;
+    }
+  }
+
+  const label = SyncSettingsService.getLabel(key);
+  const change = reset ? 'was reset' : `is now \`${storedValue}\``;
+
+  if (groupId) {
+    const updated = await SyncStorageService.setGroupSetting(serverId, groupId, key, storedValue);
+
+    if (!updated) {
+      await interaction.reply({
+        content: `❌ Could not update **${groupId}**. Make sure it exists and is owned by this server.`,
+        flags: ['Ephemeral']
+      } as InteractionReplyOptions);
+      return;
+    }
+
+    console.log(`Sync config executed by ${interaction.user.tag} - Server: ${serverId}, Group: ${groupId}, ${key}: ${storedValue}`);
+
+    await interaction.reply({
+      content: `✅ **${label}** ${change} for sync group **${groupId}**.`,
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  const channelId = ChannelUtils.resolveSyncChannelId(interaction);
+
+  // Settings of unsynced channels would be dropped right away
+  if (!channelId || !SyncTopologyService.getChannel(serverId, channelId)) {
+    await interaction.reply({
+      content: '❌ This channel is not part of any sync group. Pass `group` to change the settings of a group.',
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  await SyncStorageService.setChannelSetting(serverId, channelId, key, storedValue);
+
+  console.log(`Sync config executed by ${interaction.user.tag} - Server: ${serverId}, Channel: ${channelId}, ${key}: ${storedValue}`);
+
+  await interaction.reply({
+    content: `✅ **${label}** ${change} for <#${channelId}>.`,
+    flags: ['Ephemeral']
+  } as InteractionReplyOptions);
+}
+
+export const syncConfigCommand = {
+  data: new SlashCommandBuilder()
+    .setName('sync-config')
+    .setDescription('View and change translation settings of sync groups and channels')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('view')
+        .setDescription('Show the translation settings of a channel or sync group')
+        .addStringOption(option =>
+          option.setName('group').setDescription('Channel group ID (shows the group defaults)').setRequired(false)
+        )
+        .addChannelOption(option =>
+          option
+            .setName('channel')
+            .setDescription('Synced channel (defaults to the current channel)')
+            .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement, ChannelType.GuildForum)
+            .setRequired(false)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('set')
+        .setDescription('Change a setting for a sync group or override it for one channel')
+        .addStringOption(option =>
+          option
+            .setName('setting')
+            .setDescription('Setting to change')
+            .setRequired(true)
+            .addChoices(...SETTING_CHOICES)
+        )
+        .addStringOption(option =>
+          option.setName('value').setDescription('New value').setRequired(true)
+        )
+        .addStringOption(option =>
+          option.setName('group').setDescription('Channel group ID (changes the group default)').setRequired(false)
+        )
+        .addChannelOption(option =>
+          option
+            .setName('channel')
+            .setDescription('Synced channel to override (defaults to the current channel)')
+            .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement, ChannelType.GuildForum)
+            .setRequired(false)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('reset')
+        .setDescription('Reset a setting of a sync group or remove a channel override')
+        .addStringOption(option =>
+          option
+            .setName('setting')
+            .setDescription('Setting to reset')
+            .setRequired(true)
+            .addChoices(...SETTING_CHOICES)
+        )
+        .addStringOption(option =>
+          option.setName('group').setDescription('Channel group ID (resets the group default)').setRequired(false)
+        )
+        .addChannelOption(option =>
+          option
+            .setName('channel')
+            .setDescription('Synced channel (defaults to the current channel)')
+            .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement, ChannelType.GuildForum)
+            .setRequired(false)
+        )
+    ),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.guild) {
+      await interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: ['Ephemeral']
+      } as InteractionReplyOptions);
+      return;
+    }
+
+    const serverId = interaction.guild.id;
+
+    try {
+      switch (interaction.options.getSubcommand()) {
+        case 'view':
+          await executeView(interaction, serverId);
+          break;
+        case 'set':
+          await executeUpdate(interaction, serverId, false);
+          break;
+        case 'reset':
+          await executeUpdate(interaction, serverId, true);
+          break;
+      }
+    } catch (error) {
+      console.error('Error executing sync-config command:', error);
+      await InteractionUtils.replyWithError(
+        interaction,
+        '❌ Failed to update translation settings. Please try again.'
+      );
+    }
+  },
+};
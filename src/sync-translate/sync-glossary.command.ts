@@ -0,0 +1,232 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  AutocompleteInteraction,
+  EmbedBuilder,
+  PermissionFlagsBits,
+  type InteractionReplyOptions,
+} from 'discord.js';
+import { LanguageService } from './languages';
+import { SyncStorageService, type GlossaryEntry } from './sync-storage.service';
+import { InteractionUtils } from '../utils/interaction.utils';
+
+const EMBED_COLOR = 0x5865f2;
+const MAX_TERM_LENGTH = 100;
+
+function formatEntryLine(entry: GlossaryEntry): string {
+  const translations = Object.entries(entry.translations);
+  if (translations.length === 0) {
+    return `**${entry.term}** — 🔒 never translated`;
+  }
+
+  return `**${entry.term}** — ${translations
+    .map(([language, translation]) => `\`${language}\` ${translation}`)
+    .join(', ')}`;
+}
+
+async function replyGroupNotEditable(interaction: ChatInputCommandInteraction, groupId: string) {
+  await interaction.reply({
+    content: `❌ Could not update the glossary of **${groupId}**. Make sure it exists and is owned by this server.`,
+    flags: ['Ephemeral']
+  } as InteractionReplyOptions);
+}
+
+async function executeList(interaction: ChatInputCommandInteraction, serverId: string) {
+  const groupId = interaction.options.getString('group', true);
+  const glossary = await SyncStorageService.getGlossary(serverId, groupId);
+
+  if (!glossary) {
+    await interaction.reply({
+      content: `❌ Sync group **${groupId}** does not exist.`,
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle(`Glossary of sync group: ${groupId}`)
+    .setColor(EMBED_COLOR)
+    .setDescription(
+      glossary.entries.map(formatEntryLine).join('\n').slice(0, 4096) ||
+      'The glossary is empty. Use `/sync-glossary keep` or `/sync-glossary set` to add terms.'
+    )
+    .setFooter({ text: `${glossary.entries.length} terms` });
+
+  await interaction.reply({ embeds: [embed], flags: ['Ephemeral'] } as InteractionReplyOptions);
+}
+
+async function executeKeep(interaction: ChatInputCommandInteraction, serverId: string) {
+  const groupId = interaction.options.getString('group', true);
+  const term = interaction.options.getString('term', true).trim();
+
+  const updated = await SyncStorageService.setGlossaryTerm(serverId, groupId, term);
+  if (!updated) {
+    await replyGroupNotEditable(interaction, groupId);
+    return;
+  }
+
+  console.log(`Sync glossary keep executed by ${interaction.user.tag} - Server: ${serverId}, Group: ${groupId}, Term: ${term}`);
+
+  await interaction.reply({
+    content: `✅ **${term}** will never be translated in sync group **${groupId}**.`,
+    flags: ['Ephemeral']
+  } as InteractionReplyOptions);
+}
+
+async function executeSet(interaction: ChatInputCommandInteraction, serverId: string) {
+  const groupId = interaction.options.getString('group', true);
+  const term = interaction.options.getString('term', true).trim();
+  const languageCode = interaction.options.getString('language', true).trim().toLowerCase();
+  const translation = interaction.options.getString('translation', true).trim();
+
+  if (languageCode === 'auto' || !LanguageService.isLanguageSupported(languageCode)) {
+    await interaction.reply({
+      content: `❌ \`${languageCode}\` is not a supported language. Please pick one of the suggested languages.`,
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  const updated = await SyncStorageService.setGlossaryTerm(serverId, groupId, term, languageCode, translation);
+  if (!updated) {
+    await replyGroupNotEditable(interaction, groupId);
+    return;
+  }
+
+  console.log(`Sync glossary set executed by ${interaction.user.tag} - Server: ${serverId}, Group: ${groupId}, Term: ${term}, ${languageCode}: ${translation}`);
+
+  await interaction.reply({
+    content: `✅ **${term}** is now always translated to **${translation}** in ${LanguageService.getLanguageName(languageCode)}.`,
+    flags: ['Ephemeral']
+  } as InteractionReplyOptions);
+}
+
+async function executeRemove(interaction: ChatInputCommandInteraction, serverId: string) {
+  const groupId = interaction.options.getString('group', true);
+  const term = interaction.options.getString('term', true).trim();
+  const languageCode = interaction.options.getString('language')?.trim().toLowerCase();
+
+  const removed = await SyncStorageService.removeGlossaryTerm(serverId, groupId, term, languageCode);
+  if (!removed) {
+    await interaction.reply({
+      content: `❌ **${term}**${languageCode ? ` has no \`${languageCode}\` translation or` : ''} is not in the glossary of **${groupId}**, or the group is not owned by this server.`,
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  console.log(`Sync glossary remove executed by ${interaction.user.tag} - Server: ${serverId}, Group: ${groupId}, Term: ${term}, Language: ${languageCode ?? 'all'}`);
+
+  await interaction.reply({
+    content: languageCode
+      ? `✅ Removed the \`${languageCode}\` translation of **${term}**.`
+      : `✅ Removed **${term}** from the glossary of **${groupId}**.`,
+    flags: ['Ephemeral']
+  } as InteractionReplyOptions);
+}
+
+export const syncGlossaryCommand = {
+  data: new SlashCommandBuilder()
+    .setName('sync-glossary')
+    .setDescription('Manage terms that are never translated or always translated the same way')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('list')
+        .setDescription('List the glossary of a sync group')
+        .addStringOption(option =>
+          option.setName('group').setDescription('Channel group ID').setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('keep')
+        .setDescription('Never translate a term, such as a name or place')
+        .addStringOption(option =>
+          option.setName('group').setDescription('Channel group ID').setRequired(true)
+        )
+        .addStringOption(option =>
+          option.setName('term').setDescription('Term to keep as is').setRequired(true).setMaxLength(MAX_TERM_LENGTH)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('set')
+        .setDescription('Always translate a term the same way into one language')
+        .addStringOption(option =>
+          option.setName('group').setDescription('Channel group ID').setRequired(true)
+        )
+        .addStringOption(option =>
+          option.setName('term').setDescription('Term in the source text').setRequired(true).setMaxLength(MAX_TERM_LENGTH)
+        )
+        .addStringOption(option =>
+          option
+            .setName('language')
+            .setDescription('Target language')
+            .setRequired(true)
+            .setAutocomplete(true)
+        )
+        .addStringOption(option =>
+          option.setName('translation').setDescription('Fixed translation').setRequired(true).setMaxLength(MAX_TERM_LENGTH)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('remove')
+        .setDescription('Remove a term, or only one of its translations')
+        .addStringOption(option =>
+          option.setName('group').setDescription('Channel group ID').setRequired(true)
+        )
+        .addStringOption(option =>
+          option.setName('term').setDescription('Term to remove').setRequired(true)
+        )
+        .addStringOption(option =>
+          option
+            .setName('language')
+            .setDescription('Only remove the translation for this language')
+            .setRequired(false)
+            .setAutocomplete(true)
+        )
+    ),
+
+  async autocomplete(interaction: AutocompleteInteraction) {
+    const focusedValue = interaction.options.getFocused();
+    await interaction.respond(LanguageService.getLanguageChoicesForQuery(focusedValue));
+  },
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.guild) {
+      await interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: ['Ephemeral']
+      } as InteractionReplyOptions);
+      return;
+    }
+
+    const serverId = interaction.guild.id;
+    const subcommand = interaction.options.getSubcommand();
+
+    try {
+      switch (subcommand) {
+        case 'list':
+          await executeList(interaction, serverId);
+          break;
+        case 'keep':
+          await executeKeep(interaction, serverId);
+          break;
+        case 'set':
+          await executeSet(interaction, serverId);
+          break;
+        case 'remove':
+          await executeRemove(interaction, serverId);
+          break;
+      }
+    } catch (error) {
+      console.error(`Error executing sync-glossary ${subcommand}:`, error);
+      await InteractionUtils.replyWithError(
+        interaction,
+        '❌ Failed to update the glossary. Please try again.'
+      );
+    }
+  },
+};
@@ -0,0 +1,374 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  ChannelType,
+  EmbedBuilder,
+  PermissionFlagsBits,
+  type InteractionReplyOptions,
+} from 'discord.js';
+import { LanguageService } from './languages';
+import { SyncStorageService, type ChannelLanguageConfig } from './sync-storage.service';
+import { WebhookService } from './webhook.service';
+import { ChannelUtils } from '../utils/channel.utils';
+import { InteractionUtils } from '../utils/interaction.utils';
+
+const EMBED_COLOR = 0x5865f2;
+const MAX_EMBED_FIELDS = 25;
+
+function formatChannelLine(config: ChannelLanguageConfig, interaction: ChatInputCommandInteraction): string {
+  const languageName = LanguageService.getLanguageName(config.language);
+  const nativeName = LanguageService.getLanguageNativeName(config.language);
+  const directionLabel = config.direction === 'broadcast'
+    ? ' · 📢 broadcast'
+    : config.direction === 'receive-only' ? ' · 📥 receive-only' : '';
+  const line = `<#${config.channelId}> — ${languageName} (${nativeName}) \`${config.language}\`${directionLabel}`;
+
+  // Channel mentions from other servers don't resolve, so name the server
+  if (config.serverId !== interaction.guildId) {
+    const serverName = interaction.client.guilds.cache.get(config.serverId)?.name || config.serverId;
+    return `${line} · *${serverName}*`;
+  }
+
+  return line;
+}
+
+function hasAdminPermission(interaction: ChatInputCommandInteraction): boolean {
+  return interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild) ?? false;
+}
+
+// Remove the bot webhook once a channel is no longer part of any group
+async function cleanupWebhookIfUnsynced(serverId: string, channelId: string): Promise<void> {
+  const language = await SyncStorageService.getChannelLanguage(serverId, channelId);
+  if (!language) {
+    await WebhookService.deleteWebhook(channelId);
+  }
+}
+
+async function executeList(interaction: ChatInputCommandInteraction, serverId: string) {
+  const groupIds = await SyncStorageService.getChannelGroups(serverId);
+
+  if (groupIds.length === 0) {
+    await interaction.reply({
+      content: 'There are no sync groups in this server yet. Use `/sync-language` to create one.',
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle('Sync groups')
+    .setColor(EMBED_COLOR);
+
+  for (const groupId of groupIds.slice(0, MAX_EMBED_FIELDS)) {
+    const channels = await SyncStorageService.getChannelsInGroup(serverId, groupId);
+    embed.addFields({
+      name: `${groupId} (${channels.length} channels)`,
+      value: channels.map(config => formatChannelLine(config, interaction)).join('\n').slice(0, 1024) || 'No channels'
+    });
+  }
+
+  if (groupIds.length > MAX_EMBED_FIELDS) {
+    embed.setFooter({ text: `Showing ${MAX_EMBED_FIELDS} of ${groupIds.length} groups` });
+  }
+
+  await interaction.reply({ embeds: [embed], flags: ['Ephemeral'] } as InteractionReplyOptions);
+}
+
+async function executeInfo(interaction: ChatInputCommandInteraction, serverId: string) {
+  const groupId = interaction.options.getString('group', true);
+  const group = await SyncStorageService.getGroup(serverId, groupId);
+
+  if (!group) {
+    await interaction.reply({
+      content: `❌ Sync group **${groupId}** does not exist.`,
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  const serverNames = group.serverIds.map(
+    id => interaction.client.guilds.cache.get(id)?.name || id
+  );
+
+  const embed = new EmbedBuilder()
+    .setTitle(`Sync group: ${groupId}`)
+    .setColor(EMBED_COLOR)
+    .setDescription(
+      group.channels.map(config => formatChannelLine(config, interaction)).join('\n').slice(0, 4096) || 'No channels'
+    )
+    .addFields({ name: 'Servers', value: serverNames.join(', ').slice(0, 1024) })
+    .setFooter({ text: `${group.channels.length} channels` });
+
+  await interaction.reply({ embeds: [embed], flags: ['Ephemeral'] } as InteractionReplyOptions);
+}
+
+async function executeUnlink(interaction: ChatInputCommandInteraction, serverId: string) {
+  const channelId = ChannelUtils.resolveSyncChannelId(interaction);
+  const groupOption = interaction.options.getString('group');
+
+  if (!channelId) {
+    await interaction.reply({
+      content: 'Unable to determine the channel to unlink.',
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  const groupIds = groupOption
+    ? [groupOption]
+    : (await SyncStorageService.getSyncGroupsForChannel(serverId, channelId)).map(group => group.groupId);
+
+  const removedFrom: string[] = [];
+  for (const groupId of groupIds) {
+    if (await SyncStorageService.removeChannelFromGroup(serverId, groupId, channelId)) {
+      removedFrom.push(groupId);
+    }
+  }
+
+  if (removedFrom.length === 0) {
+    await interaction.reply({
+      content: `❌ <#${channelId}> is not part of ${groupOption ? `sync group **${groupOption}**` : 'any sync group'}.`,
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  await cleanupWebhookIfUnsynced(serverId, channelId);
+
+  console.log(`Sync group unlink executed by ${interaction.user.tag} - Server: ${serverId}, Channel: ${channelId}, Groups: ${removedFrom.join(', ')}`);
+
+  await interaction.reply({
+    content: `✅ <#${channelId}> was removed from: ${removedFrom.map(groupId => `**${groupId}**`).join(', ')}`,
+    flags: ['Ephemeral']
+  } as InteractionReplyOptions);
+}
+
+async function executeRename(interaction: ChatInputCommandInteraction, serverId: string) {
+  const groupId = interaction.options.getString('group', true);
+  const newGroupId = interaction.options.getString('new-name', true);
+
+  const renamed = await SyncStorageService.renameGroup(serverId, groupId, newGroupId);
+
+  if (!renamed) {
+    await interaction.reply({
+      content: `❌ Could not rename **${groupId}**. Make sure it exists, is owned by this server and that **${newGroupId}** is not already taken.`,
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  console.log(`Sync group rename executed by ${interaction.user.tag} - Server: ${serverId}, Group: ${groupId} -> ${newGroupId}`);
+
+  await interaction.reply({
+    content: `✅ Sync group **${groupId}** was renamed to **${newGroupId}**.`,
+    flags: ['Ephemeral']
+  } as InteractionReplyOptions);
+}
+
+async function executeDelete(interaction: ChatInputCommandInteraction, serverId: string) {
+  const groupId = interaction.options.getString('group', true);
+  const group = await SyncStorageService.getGroup(serverId, groupId);
+
+  if (!group) {
+    await interaction.reply({
+      content: `❌ Sync group **${groupId}** does not exist.`,
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  // Servers that joined through an invite only leave, the owner deletes the group for everyone
+  const isOwner = group.ownerServerId === serverId;
+  const removedChannels = isOwner
+    ? await SyncStorageService.deleteGroup(serverId, groupId)
+    : await SyncStorageService.leaveGroup(serverId, groupId);
+
+  for (const config of removedChannels) {
+    await cleanupWebhookIfUnsynced(config.serverId, config.channelId);
+  }
+
+  console.log(`Sync group ${isOwner ? 'delete' : 'leave'} executed by ${interaction.user.tag} - Server: ${serverId}, Group: ${groupId}`);
+
+  await interaction.reply({
+    content: isOwner
+      ? `✅ Sync group **${groupId}** was deleted and ${removedChannels.length} channels stopped syncing.`
+      : `✅ This server left sync group **${groupId}** and ${removedChannels.length} channels stopped syncing.`,
+    flags: ['Ephemeral']
+  } as InteractionReplyOptions);
+}
+
+async function executeInvite(interaction: ChatInputCommandInteraction, serverId: string) {
+  const groupId = interaction.options.getString('group', true);
+
+  if (!hasAdminPermission(interaction)) {
+    await interaction.reply({
+      content: '❌ Only server administrators (Manage Server) can invite other servers.',
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  const invite = await SyncStorageService.createInvite(serverId, groupId, interaction.user.id);
+
+  if (!invite) {
+    await interaction.reply({
+      content: `❌ Sync group **${groupId}** does not exist.`,
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  console.log(`Sync group invite created by ${interaction.user.tag} - Server: ${serverId}, Group: ${groupId}, Code: ${invite.code}`);
+
+  await interaction.reply({
+    content: `✅ Invite code for **${groupId}**: \`${invite.code}\`\n\nAn administrator of the other server can join with \`/sync-group join code:${invite.code}\`. The code can be used once and expires <t:${Math.floor(invite.expiresAt / 1000)}:R>.`,
+    flags: ['Ephemeral']
+  } as InteractionReplyOptions);
+}
+
+async function executeJoin(interaction: ChatInputCommandInteraction, serverId: string) {
+  const code = interaction.options.getString('code', true);
+
+  if (!hasAdminPermission(interaction)) {
+    await interaction.reply({
+      content: '❌ Only server administrators (Manage Server) can join sync groups of other servers.',
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  const result = await SyncStorageService.redeemInvite(serverId, code);
+
+  if (!result.success) {
+    await interaction.reply({
+      content: `❌ ${result.reason}`,
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  console.log(`Sync group invite redeemed by ${interaction.user.tag} - Server: ${serverId}, Group: ${result.group.name}`);
+
+  await interaction.reply({
+    content: `✅ This server joined sync group **${result.group.name}**.\n\nUse \`/sync-language channel-group-id:${result.group.name}\` in a channel to start syncing it.`,
+    flags: ['Ephemeral']
+  } as InteractionReplyOptions);
+}
+
+export const syncGroupCommand = {
+  data: new SlashCommandBuilder()
+    .setName('sync-group')
+    .setDescription('Manage translation sync groups')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('list')
+        .setDescription('List all sync groups in this server')
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('info')
+        .setDescription('Show the channels and languages of a sync group')
+        .addStringOption(option =>
+          option.setName('group').setDescription('Channel group ID').setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('unlink')
+        .setDescription('Remove a channel from its sync groups')
+        .addChannelOption(option =>
+          option
+            .setName('channel')
+            .setDescription('Channel to unlink (defaults to the current channel)')
+            .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement, ChannelType.GuildForum)
+            .setRequired(false)
+        )
+        .addStringOption(option =>
+          option
+            .setName('group')
+            .setDescription('Only unlink from this group (defaults to all groups)')
+            .setRequired(false)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('rename')
+        .setDescription('Rename a sync group')
+        .addStringOption(option =>
+          option.setName('group').setDescription('Channel group ID').setRequired(true)
+        )
+        .addStringOption(option =>
+          option.setName('new-name').setDescription('New channel group ID').setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('delete')
+        .setDescription('Delete a sync group, or leave it if another server owns it')
+        .addStringOption(option =>
+          option.setName('group').setDescription('Channel group ID').setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('invite')
+        .setDescription('Create a code that lets another server join a sync group')
+        .addStringOption(option =>
+          option.setName('group').setDescription('Channel group ID').setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('join')
+        .setDescription('Join a sync group of another server with an invite code')
+        .addStringOption(option =>
+          option.setName('code').setDescription('Invite code').setRequired(true)
+        )
+    ),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.guild) {
+      await interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: ['Ephemeral']
+      } as InteractionReplyOptions);
+      return;
+    }
+
+    const serverId = interaction.guild.id;
+    const subcommand = interaction.options.getSubcommand();
+
+    try {
+      switch (subcommand) {
+        case 'list':
+          await executeList(interaction, serverId);
+          break;
+        case 'info':
+          await executeInfo(interaction, serverId);
+          break;
+        case 'unlink':
+          await executeUnlink(interaction, serverId);
+          break;
+        case 'rename':
+          await executeRename(interaction, serverId);
+          break;
+        case 'delete':
+          await executeDelete(interaction, serverId);
+          break;
+        case 'invite':
+          await executeInvite(interaction, serverId);
+          break;
+        case 'join':
+          await executeJoin(interaction, serverId);
+          break;
+      }
+    } catch (error) {
+      console.error(`Error executing sync-group ${subcommand}:`, error);
+      await InteractionUtils.replyWithError(
+        interaction,
+        '❌ Failed to update sync group settings. Please try again.'
+      );
+    }
+  },
+};
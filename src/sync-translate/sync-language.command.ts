@@ -1,6 +1,7 @@
-import { SlashCommandBuilder, ChatInputCommandInteraction, InteractionReplyOptions } from 'discord.js';
+import { SlashCommandBuilder, ChatInputCommandInteraction, AutocompleteInteraction, ChannelType, type InteractionReplyOptions } from 'discord.js';
 import { LanguageService } from './languages';
-import { SyncStorageService } from './sync-storage.service';
+import { SyncStorageService, type ChannelDirection } from './sync-storage.service';
+import { ChannelUtils } from '../utils/channel.utils';
 
 export const syncLanguageCommand = {
   data: new SlashCommandBuilder()
@@ -11,18 +12,42 @@ export const syncLanguageCommand = {
         .setName('language')
         .setDescription('The language to sync')
         .setRequired(true)
-        .addChoices(...LanguageService.getLanguageChoicesForCommand())
+        .setAutocomplete(true)
     )
     .addStringOption(option =>
       option
         .setName('channel-group-id')
         .setDescription('Channel group ID to sync this channel with')
         .setRequired(true)
+    )
+    .addChannelOption(option =>
+      option
+        .setName('channel')
+        .setDescription('Text or forum channel to sync (defaults to the current channel)')
+        .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement, ChannelType.GuildForum)
+        .setRequired(false)
+    )
+    .addStringOption(option =>
+      option
+        .setName('direction')
+        .setDescription('Whether this channel sends, receives or both (keeps the current direction if omitted)')
+        .setRequired(false)
+        .addChoices(
+          { name: 'Send and receive', value: 'bidirectional' },
+          { name: 'Broadcast (send only)', value: 'broadcast' },
+          { name: 'Receive only', value: 'receive-only' }
+        )
     ),
 
+  async autocomplete(interaction: AutocompleteInteraction) {
+    const focusedValue = interaction.options.getFocused();
+    await interaction.respond(LanguageService.getLanguageChoicesForQuery(focusedValue));
+  },
+
   async execute(interaction: ChatInputCommandInteraction) {
-    const languageCode = interaction.options.get('language')?.value as string;
+    const languageCode = (interaction.options.get('language')?.value as string).trim().toLowerCase();
     const channelGroupId = interaction.options.get('channel-group-id')?.value as string;
+    const direction = (interaction.options.getString('direction') ?? undefined) as ChannelDirection | undefined;
     const languageName = LanguageService.getLanguageName(languageCode);
     const nativeName = LanguageService.getLanguageNativeName(languageCode);
     
@@ -34,8 +59,17 @@ export const syncLanguageCommand = {
       return;
     }
 
+    // Autocomplete only suggests values, anything can still be submitted
+    if (languageCode === 'auto' || !LanguageService.isLanguageSupported(languageCode)) {
+      await interaction.reply({
+        content: `❌ \`${languageCode}\` is not a supported language. Please pick one of the suggested languages.`,
+        flags: ['Ephemeral']
+      } as InteractionReplyOptions);
+      return;
+    }
+
     const serverId = interaction.guild.id;
-    const channelId = interaction.channel?.id;
+    const channelId = ChannelUtils.resolveSyncChannelId(interaction);
 
     if (!channelId) {
       await interaction.reply({
@@ -50,13 +84,14 @@ export const syncLanguageCommand = {
         serverId,
         channelGroupId,
         channelId,
-        languageCode
+        languageCode,
+        direction
       );
 
-      console.log(`Sync language command executed by ${interaction.user.tag} - Server: ${serverId}, Group: ${channelGroupId}, Channel: ${channelId}, Language: ${languageCode} (${languageName})`);
+      console.log(`Sync language command executed by ${interaction.user.tag} - Server: ${serverId}, Group: ${channelGroupId}, Channel: ${channelId}, Language: ${languageCode} (${languageName}), Direction: ${direction ?? 'unchanged'}`);
       
       await interaction.reply({
-        content: `✅ Language synchronized!\n**Language:** ${languageName} (${nativeName})\n**Channel Group:** ${channelGroupId}\n**Channel:** <#${channelId}>\n\nThis channel is now part of the translation sync group.`,
+        content: `✅ Language synchronized!\n**Language:** ${languageName} (${nativeName})\n**Channel Group:** ${channelGroupId}\n**Channel:** <#${channelId}>${direction ? `\n**Direction:** ${direction}` : ''}\n\nThis channel is now part of the translation sync group.`,
         flags: ['Ephemeral']
       } as InteractionReplyOptions);
     } catch (error) {
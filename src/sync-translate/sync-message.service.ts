@@ -1,14 +1,55 @@
-import { Message, Client, TextChannel } from "discord.js";
+import {
+  Message,
+  Client,
+  TextChannel,
+  MessageType,
+  ChannelType,
+  type GuildTextBasedChannel,
+} from "discord.js";
 import {
   SyncStorageService,
   type ChannelLanguageConfig,
 } from "./sync-storage.service";
-import { TranslationService } from "./translate.service";
-import { TranslateLLMService } from "./translate-llm.service";
-import { MessageQueueManager } from "./message-queue.service";
+import { SyncTopologyService } from "./sync-topology.service";
+import {
+  SyncSettingsService,
+  type TranslationSettings,
+} from "./sync-settings.service";
+import {
+  TranslateLLMService,
+  type TranslationGlossary,
+} from "./translate-llm.service";
+import { TranslationProviderRegistry } from "./providers/provider-registry";
+import {
+  MessageQueueManager,
+  type ReplyReference,
+} from "./message-queue.service";
 import { UserUtils } from "../utils/user.utils";
 import { WebhookService } from "./webhook.service";
 import { AvatarCleanupService } from "./avatar-cleanup.service";
+import { ThreadLinkService } from "./thread-link.service";
+import {
+  AttachmentSyncService,
+  type ForwardedAttachment,
+} from "./attachment-sync.service";
+import {
+  MessageLinkService,
+  type MirroredMessage,
+} from "./message-link.service";
+import {
+  TranslationMemoryService,
+  type TranslationMemoryKey,
+} from "./translation-memory.service";
+import {
+  TranslationCancellationService,
+  type TranslationJob,
+} from "./translation-cancellation.service";
+
+// Routing only needs to know where to post, in which language and how
+type SyncTarget = Pick<ChannelLanguageConfig, "channelId" | "language"> & {
+  settings: TranslationSettings;
+  glossary: TranslationGlossary;
+};
 
 export class SyncMessageService {
   private client: Client;
@@ -19,14 +60,15 @@ export class SyncMessageService {
     WebhookService.setClient(client);
   }
 
-  public async handleMessage(message: Message): Promise<void> {
+  // A job passed in, such as the one of a transcribed voice message, keeps its deadline
+  public async handleMessage(message: Message, job?: TranslationJob): Promise<void> {
     // Skip bot messages to prevent infinite loops
     if (message.author.bot) {
       return;
     }
 
-    // Skip messages without content
-    if (!message.content || message.content.trim().length === 0) {
+    // Skip messages without content or attachments
+    if (!this.hasSyncableContent(message)) {
       return;
     }
 
@@ -35,22 +77,174 @@ export class SyncMessageService {
       return;
     }
 
+    // Forum post starter messages are mirrored together with their post
+    if (message.channel.isThread() && message.id === message.channel.id) {
+      return;
+    }
+
     try {
-      await this.processSyncedMessage(message);
+      await this.processSyncedMessage(message, job);
     } catch (error) {
       console.error("Error processing synced message:", error);
     }
   }
 
-  private async processSyncedMessage(message: Message): Promise<void> {
+  public async handleMessageEdit(message: Message): Promise<void> {
+    // Skip bot and webhook messages, including our own mirrored copies
+    if (message.author.bot || message.webhookId) {
+      return;
+    }
+
+    if (!this.hasSyncableContent(message)) {
+      return;
+    }
+
+    if (!message.guild) {
+      return;
+    }
+
+    try {
+      await this.processEditedMessage(message);
+    } catch (error) {
+      console.error("Error processing edited synced message:", error);
+    }
+  }
+
+  private async processEditedMessage(message: Message): Promise<void> {
+    const link = await MessageLinkService.getLink(message.id);
+
+    if (!link || link.mirrors.length === 0) {
+      // Message was never mirrored
+      return;
+    }
+
+    const sourceLanguage = await this.getSourceLanguage(message);
+
+    if (!sourceLanguage) {
+      return;
+    }
+
+    console.log(
+      `Propagating edit of message ${message.id} to ${link.mirrors.length} mirrored copies`
+    );
+
+    const replyTo = await this.getReplyReference(message);
+    const attachments = AttachmentSyncService.fromMessage(message);
+    const job = TranslationCancellationService.start(message.id);
+
+    try {
+      for (const mirror of link.mirrors) {
+        try {
+          const { settings, glossary } = await this.resolveTarget(
+            mirror.channelId,
+            mirror.language
+          );
+          const translatedText = await this.translateContent(
+            message,
+            sourceLanguage,
+            mirror.language,
+            settings,
+            glossary,
+            job.signal
+          );
+          if (job.cancelled) {
+            return;
+          }
+
+          await MessageQueueManager.addEditToQueue(
+            mirror,
+            message,
+            translatedText,
+            replyTo,
+            attachments,
+            settings.displayFormat
+          );
+        } catch (error) {
+          console.error(
+            `Failed to update mirrored message ${mirror.messageId} in channel ${mirror.channelId}:`,
+            error
+          );
+        }
+      }
+    } finally {
+      job.finish();
+    }
+  }
+
+  public async handleMessageDelete(messageId: string): Promise<void> {
+    // Translations still in progress or waiting to be posted are dropped
+    if (TranslationCancellationService.cancel(messageId)) {
+      console.log(`Cancelled pending translations of deleted message ${messageId}`);
+    }
+    MessageQueueManager.removeQueuedMessages(messageId);
+
+    try {
+      const link = await MessageLinkService.removeLink(messageId);
+
+      if (!link) {
+        // Not a source message; if a mirrored copy was removed, stop tracking it
+        await MessageLinkService.removeMirror(messageId);
+        return;
+      }
+
+      console.log(
+        `Propagating deletion of message ${messageId} to ${link.mirrors.length} mirrored copies`
+      );
+
+      for (const mirror of link.mirrors) {
+        await this.deleteMirror(mirror);
+      }
+    } catch (error) {
+      console.error("Error processing deleted synced message:", error);
+    }
+  }
+
+  private async deleteMirror(mirror: MirroredMessage): Promise<void> {
+    // Long translations were posted in several parts
+    for (const messageId of MessageLinkService.getMessageIds(mirror)) {
+      try {
+        if (mirror.viaWebhook) {
+          const deleted = await WebhookService.deleteWebhookMessage(
+            mirror.channelId,
+            messageId
+          );
+          if (!deleted) {
+            throw new Error(`Could not delete mirrored message ${messageId}`);
+          }
+        } else {
+          // Mirror was posted by the bot itself
+          const channel = (await this.client.channels.fetch(
+            mirror.channelId
+          )) as TextChannel;
+          await channel.messages.delete(messageId);
+        }
+
+        console.log(
+          `Deleted mirrored message ${messageId} in channel ${mirror.channelId}`
+        );
+      } catch (error) {
+        console.error(
+          `Failed to delete mirrored message ${messageId} in channel ${mirror.channelId}:`,
+          error
+        );
+      }
+    }
+  }
+
+  private hasSyncableContent(message: Message): boolean {
+    const hasText = !!message.content && message.content.trim().length > 0;
+    return hasText || AttachmentSyncService.fromMessage(message).length > 0;
+  }
+
+  private async processSyncedMessage(
+    message: Message,
+    existingJob?: TranslationJob
+  ): Promise<void> {
     const serverId = message.guild!.id;
     const sourceChannelId = message.channel.id;
 
     // Get the language configuration for this channel
-    const sourceLanguage = await SyncStorageService.getChannelLanguage(
-      serverId,
-      sourceChannelId
-    );
+    const sourceLanguage = await this.getSourceLanguage(message);
 
     if (!sourceLanguage) {
       // Channel is not part of any sync group
@@ -58,10 +252,11 @@ export class SyncMessageService {
     }
 
     // Find all channels in the same sync groups as this channel
-    const syncGroups = await this.findChannelSyncGroups(
-      serverId,
-      sourceChannelId
-    );
+    const syncGroups = message.channel.isThread()
+      ? await this.findThreadSyncGroups(sourceChannelId)
+      : await this.excludeForumChannels(
+          this.findChannelSyncGroups(serverId, sourceChannelId)
+        );
 
     if (syncGroups.length === 0) {
       return;
@@ -112,57 +307,200 @@ export class SyncMessageService {
       }
     }
 
-    // Process each sync group
-    for (const { groupId, channels } of syncGroups) {
-      await this.translateToSyncGroup(
-        message,
-        sourceLanguage,
-        groupId,
-        channels,
-        userProfile
+    // Resolve the replied-to message once so each target can link its own copy
+    const replyTo = await this.getReplyReference(message);
+
+    const job = existingJob ?? TranslationCancellationService.start(message.id);
+    try {
+      // Process each sync group
+      for (const { groupId, channels } of syncGroups) {
+        await this.translateToSyncGroup(
+          message,
+          sourceLanguage,
+          groupId,
+          channels,
+          userProfile,
+          job,
+          replyTo
+        );
+      }
+    } finally {
+      // Whoever started a job passed in finishes it
+      if (!existingJob) {
+        job.finish();
+      }
+    }
+  }
+
+  private async getReplyReference(
+    message: Message
+  ): Promise<ReplyReference | undefined> {
+    if (message.type !== MessageType.Reply || !message.reference?.messageId) {
+      return undefined;
+    }
+
+    try {
+      const referenced = await message.fetchReference();
+      return {
+        messageId: referenced.id,
+        authorName:
+          referenced.member?.displayName ||
+          referenced.author.displayName ||
+          referenced.author.username,
+        content: referenced.content,
+      };
+    } catch (error) {
+      console.warn(
+        `Failed to fetch referenced message ${message.reference.messageId}:`,
+        error
       );
+      return undefined;
     }
   }
 
-  private async findChannelSyncGroups(
-    serverId: string,
-    channelId: string
-  ): Promise<Array<{ groupId: string; channels: ChannelLanguageConfig[] }>> {
-    const syncData = await SyncStorageService.getAllSyncData();
-    const serverData = syncData[serverId];
+  private async getSourceLanguage(message: Message): Promise<string | null> {
+    // Threads are not configured directly, their language comes from the thread link
+    if (message.channel.isThread()) {
+      const threadLink = await ThreadLinkService.findLinkByThreadId(
+        message.channel.id
+      );
+      const thread = threadLink?.threads.find(
+        (t) => t.threadId === message.channel.id
+      );
+      return thread ? thread.language : null;
+    }
+
+    return SyncTopologyService.getChannelLanguage(
+      message.guild!.id,
+      message.channel.id
+    );
+  }
 
-    if (!serverData) {
+  private async findThreadSyncGroups(
+    threadId: string
+  ): Promise<Array<{ groupId: string; channels: SyncTarget[] }>> {
+    const threadLink = await ThreadLinkService.findLinkByThreadId(threadId);
+
+    if (!threadLink) {
+      return [];
+    }
+
+    const source = threadLink.threads.find((t) => t.threadId === threadId);
+    if (!source) {
       return [];
     }
 
-    const syncGroups: Array<{
-      groupId: string;
-      channels: ChannelLanguageConfig[];
-    }> = [];
+    // Counterpart threads act as a sync group of their own, each one follows the
+    // group that links its channel with the source thread's channel
+    const channels: SyncTarget[] = [];
+    for (const thread of threadLink.threads) {
+      if (thread.threadId === threadId) {
+        continue;
+      }
 
-    for (const [groupId, channels] of Object.entries(serverData)) {
-      const hasChannel = channels.some(
-        (config) => config.channelId === channelId
+      const group = SyncTopologyService.findRoutingGroup(
+        source.parentChannelId,
+        thread.parentChannelId
       );
-      if (hasChannel) {
-        syncGroups.push({ groupId, channels });
+      if (!group) {
+        continue;
       }
+
+      channels.push({
+        channelId: thread.threadId,
+        language: thread.language,
+        settings: SyncTopologyService.getSettings(thread.parentChannelId, group.id),
+        glossary: SyncTopologyService.getTranslationGlossary(
+          thread.parentChannelId,
+          thread.language,
+          group.id
+        ),
+      });
     }
 
-    return syncGroups;
+    return channels.length > 0
+      ? [{ groupId: `thread:${threadLink.threads[0]?.threadId}`, channels }]
+      : [];
+  }
+
+  private async excludeForumChannels(
+    syncGroups: Array<{ groupId: string; channels: SyncTarget[] }>
+  ): Promise<Array<{ groupId: string; channels: SyncTarget[] }>> {
+    // Plain messages cannot be posted into forums, only into their posts
+    const filteredGroups = [];
+
+    for (const { groupId, channels } of syncGroups) {
+      const textChannels: SyncTarget[] = [];
+      for (const config of channels) {
+        const channel = await this.client.channels
+          .fetch(config.channelId)
+          .catch(() => null);
+        if (!channel || channel.type !== ChannelType.GuildForum) {
+          textChannels.push(config);
+        }
+      }
+      filteredGroups.push({ groupId, channels: textChannels });
+    }
+
+    return filteredGroups;
+  }
+
+  private findChannelSyncGroups(
+    serverId: string,
+    channelId: string
+  ): Array<{ groupId: string; channels: SyncTarget[] }> {
+    return SyncTopologyService.getSyncGroupsForChannel(serverId, channelId).map(
+      ({ id, groupId, channels }) => ({
+        groupId,
+        channels: SyncStorageService.getRoutingTargets(channels, channelId).map(
+          (config) => ({
+            channelId: config.channelId,
+            language: config.language,
+            settings: SyncTopologyService.getSettings(config.channelId, id),
+            glossary: SyncTopologyService.getTranslationGlossary(
+              config.channelId,
+              config.language,
+              id
+            ),
+          })
+        ),
+      })
+    );
+  }
+
+  private async resolveTarget(
+    channelId: string,
+    language: string
+  ): Promise<SyncTarget> {
+    // Counterpart threads follow the configuration of the channel they live in
+    const threadLink = await ThreadLinkService.findLinkByThreadId(channelId);
+    const thread = threadLink?.threads.find((t) => t.threadId === channelId);
+    const configuredChannelId = thread?.parentChannelId ?? channelId;
+
+    return {
+      channelId,
+      language,
+      settings: SyncTopologyService.getSettings(configuredChannelId),
+      glossary: SyncTopologyService.getTranslationGlossary(
+        configuredChannelId,
+        language
+      ),
+    };
   }
 
   private async translateToSyncGroup(
     message: Message,
     sourceLanguage: string,
     groupId: string,
-    channels: ChannelLanguageConfig[],
+    channels: SyncTarget[],
     userProfile: {
       username: string;
       displayName: string;
       avatarUrl?: string;
       profilePicturePath?: string;
-    }
+    },
+    job: TranslationJob,
+    replyTo?: ReplyReference
   ): Promise<void> {
     const sourceChannelId = message.channel.id;
 
@@ -179,10 +517,30 @@ export class SyncMessageService {
       `Translating message to ${targetChannels.length} target channels in group ${groupId}`
     );
 
+    const { translations: batchTranslations, memoryMisses } = await this.translateBatch(
+      message,
+      sourceLanguage,
+      targetChannels,
+      job.signal
+    );
+
     // Translate to each target language
     for (const targetChannel of targetChannels) {
+      if (job.cancelled) {
+        return;
+      }
+
       try {
-        await this.translateAndQueue(message, sourceLanguage, targetChannel, userProfile);
+        await this.translateAndQueue(
+          message,
+          sourceLanguage,
+          targetChannel,
+          userProfile,
+          job,
+          replyTo,
+          batchTranslations.get(targetChannel.channelId),
+          memoryMisses.has(targetChannel.channelId)
+        );
       } catch (error) {
         console.error(
           `Failed to translate message for channel ${targetChannel.channelId}:`,
@@ -195,16 +553,24 @@ export class SyncMessageService {
   private async translateAndQueue(
     message: Message,
     sourceLanguage: string,
-    targetChannel: ChannelLanguageConfig,
+    targetChannel: SyncTarget,
     userProfile: {
       username: string;
       displayName: string;
       avatarUrl?: string;
       profilePicturePath?: string;
-    }
+    },
+    job: TranslationJob,
+    replyTo?: ReplyReference,
+    batchTranslation?: string,
+    memoryChecked = false
   ): Promise<void> {
-    const { channelId: targetChannelId, language: targetLanguage } =
-      targetChannel;
+    const {
+      channelId: targetChannelId,
+      language: targetLanguage,
+      settings,
+      glossary,
+    } = targetChannel;
 
     // Skip translation if source and target languages are the same
     if (sourceLanguage.toLowerCase() === targetLanguage.toLowerCase()) {
@@ -214,94 +580,315 @@ export class SyncMessageService {
       return;
     }
 
-    let translatedText = "";
-    let translationMethod = "unknown";
-
-    try {
-      // First, try LLM translation with context
-      translatedText = await this.tryLLMTranslation(
+    const translatedText =
+      batchTranslation ??
+      (await this.translateContent(
         message,
         sourceLanguage,
-        targetLanguage
-      );
-      translationMethod = "LLM (Mistral)";
-      
-      console.log(
-        `LLM Translated "${message.content}" from ${sourceLanguage} to ${targetLanguage}: "${translatedText}"`
+        targetLanguage,
+        settings,
+        glossary,
+        job.signal,
+        memoryChecked
+      ));
+
+    const attachments = await this.translateAttachmentDescriptions(
+      AttachmentSyncService.fromMessage(message),
+      sourceLanguage,
+      targetLanguage,
+      settings,
+      glossary,
+      message.guild?.id,
+      job.signal
+    );
+
+    // The source message was deleted while it was being translated
+    if (job.cancelled) {
+      return;
+    }
+
+    // Add translation to message queue
+    await MessageQueueManager.addToQueue(
+      targetChannelId,
+      message,
+      targetLanguage,
+      translatedText,
+      userProfile,
+      replyTo,
+      attachments,
+      settings.displayFormat
+    );
+  }
+
+  // Translates into every language that shares the same settings with one LLM
+  // request, targets missing from the result are translated one by one
+  private async translateBatch(
+    message: Message,
+    sourceLanguage: string,
+    targetChannels: SyncTarget[],
+    signal?: AbortSignal
+  ): Promise<{ translations: Map<string, string>; memoryMisses: Set<string> }> {
+    const translations = new Map<string, string>(); // channelId -> translation
+    const memoryMisses = new Set<string>(); // Channels whose memory lookup already missed
+
+    if (!message.content || message.content.trim().length === 0) {
+      return { translations, memoryMisses };
+    }
+
+    const batches = new Map<string, SyncTarget[]>();
+    for (const target of targetChannels) {
+      if (target.language.toLowerCase() === sourceLanguage.toLowerCase()) {
+        continue;
+      }
+
+      // Remembered translations don't need to be part of the request
+      const remembered = TranslationMemoryService.lookup(
+        this.getMemoryKey(message, sourceLanguage, target)
       );
-    } catch (llmError) {
-      console.warn(`LLM translation failed, falling back to Google Translate:`, llmError);
-      
+      if (remembered !== null) {
+        translations.set(target.channelId, remembered);
+        continue;
+      }
+      memoryMisses.add(target.channelId);
+
+      const batchKey = JSON.stringify([
+        target.settings.providers[0],
+        target.settings.model,
+        target.settings.formality,
+        target.settings.contextDepth,
+        [...target.glossary.doNotTranslate].sort(),
+      ]);
+      batches.set(batchKey, [...(batches.get(batchKey) ?? []), target]);
+    }
+
+    for (const targets of batches.values()) {
+      const languages = new Set(targets.map((t) => t.language.toLowerCase()));
+      if (languages.size < 2) {
+        continue;
+      }
+
+      const { settings } = targets[0]!;
+      const provider = TranslationProviderRegistry.getBatchProvider(settings.providers);
+      if (!provider) {
+        continue;
+      }
+
       try {
-        // Fallback to Google Translate
-        const translationService = new TranslationService();
-        const translationResult = await translationService.translate({
+        const contextMessages = await this.fetchContextMessages(
+          message,
+          settings.contextDepth
+        );
+        const result = await TranslationProviderRegistry.translateBatch(settings.providers, {
           text: message.content,
-          targetLanguage: targetLanguage,
+          targetLanguages: [...languages],
           originLanguage: sourceLanguage,
+          contextMessages: [message, ...contextMessages], // Include current message for ID extraction
+          model: settings.model,
+          formality: settings.formality,
+          guildId: message.guild?.id,
+          signal,
+          glossaries: Object.fromEntries(
+            targets.map((t) => [t.language.toLowerCase(), t.glossary])
+          ),
         });
-        
-        translatedText = translationResult.translatedText;
-        translationMethod = "Google Translate";
-        
+        if (!result) {
+          continue;
+        }
+
+        for (const target of targets) {
+          const translatedText = result.translations[target.language.toLowerCase()];
+          if (translatedText !== undefined) {
+            translations.set(target.channelId, translatedText);
+            TranslationMemoryService.store(
+              this.getMemoryKey(message, sourceLanguage, target),
+              translatedText
+            );
+          }
+        }
+
         console.log(
-          `Google Translate fallback: "${message.content}" from ${sourceLanguage} to ${targetLanguage}: "${translatedText}"`
-        );
-      } catch (googleError) {
-        console.error(
-          `Both LLM and Google translation failed for message "${message.content}" to ${targetLanguage}:`,
-          { llmError, googleError }
+          `${provider.name} batch translated "${message.content}" into ${Object.keys(result.translations).length}/${languages.size} languages`
         );
+      } catch (error) {
+        console.warn(`${provider.name} batch translation failed, translating one by one:`, error);
+      }
+    }
 
-        // Queue the original message with an error indicator
-        await MessageQueueManager.addToQueue(
-          targetChannelId,
-          message,
-          targetLanguage,
-          `[Translation Error] ${message.content}`,
-          userProfile
+    return { translations, memoryMisses };
+  }
+
+  private getMemoryKey(
+    message: Message,
+    sourceLanguage: string,
+    target: SyncTarget
+  ): TranslationMemoryKey {
+    return {
+      text: message.content,
+      sourceLanguage,
+      targetLanguage: target.language,
+      provider: target.settings.providers[0] ?? "",
+      model: target.settings.model,
+      formality: target.settings.formality,
+      glossary: target.glossary,
+    };
+  }
+
+  private async fetchContextMessages(
+    message: Message,
+    depth: number
+  ): Promise<Message[]> {
+    const channel = message.channel as GuildTextBasedChannel;
+    const recentMessages = depth > 0
+      ? await TranslateLLMService.fetchRecentMessages(channel, depth)
+      : [];
+
+    // Filter out the current message to avoid including it in context
+    return recentMessages.filter((msg) => msg.id !== message.id);
+  }
+
+  private async translateAttachmentDescriptions(
+    attachments: ForwardedAttachment[],
+    sourceLanguage: string,
+    targetLanguage: string,
+    settings: TranslationSettings,
+    glossary: TranslationGlossary,
+    guildId?: string,
+    signal?: AbortSignal
+  ): Promise<ForwardedAttachment[]> {
+    const translated: ForwardedAttachment[] = [];
+
+    for (const attachment of attachments) {
+      if (!attachment.description) {
+        translated.push(attachment);
+        continue;
+      }
+
+      try {
+        const result = await TranslationProviderRegistry.translate(
+          SyncSettingsService.getProviderChain(settings),
+          {
+            text: attachment.description,
+            targetLanguage,
+            originLanguage: sourceLanguage,
+            model: settings.model,
+            formality: settings.formality,
+            glossary,
+            guildId,
+            signal,
+          }
         );
-        return;
+        translated.push({ ...attachment, description: result.translatedText });
+      } catch (error) {
+        console.warn(
+          `Failed to translate description of attachment ${attachment.name}, keeping original:`,
+          error
+        );
+        translated.push(attachment);
       }
     }
 
-    // Add successful translation to message queue
-    await MessageQueueManager.addToQueue(
-      targetChannelId,
-      message,
-      targetLanguage,
-      `${translatedText}${translationMethod === "Google Translate" ? " 🔄" : ""}`, // Add indicator for fallback
-      userProfile
-    );
+    return translated;
   }
 
-  private async tryLLMTranslation(
+  public async translateContent(
     message: Message,
     sourceLanguage: string,
-    targetLanguage: string
+    targetLanguage: string,
+    settings: TranslationSettings = SyncSettingsService.DEFAULT_SETTINGS,
+    glossary?: TranslationGlossary,
+    signal?: AbortSignal,
+    memoryChecked = false // The caller already missed the translation memory, don't count it twice
   ): Promise<string> {
+    // Attachment-only messages have nothing to translate
+    if (!message.content || message.content.trim().length === 0) {
+      return "";
+    }
+
+    const memoryKey: TranslationMemoryKey = {
+      text: message.content,
+      sourceLanguage,
+      targetLanguage,
+      provider: settings.providers[0] ?? "",
+      model: settings.model,
+      formality: settings.formality,
+      glossary,
+    };
+    const remembered = memoryChecked ? null : TranslationMemoryService.lookup(memoryKey);
+    if (remembered !== null) {
+      console.log(
+        `Translation memory hit for "${message.content}" from ${sourceLanguage} to ${targetLanguage}: "${remembered}"`
+      );
+      return remembered;
+    }
+
     try {
-      // Fetch recent messages for context
-      const channel = message.channel as TextChannel;
-      const recentMessages = await TranslateLLMService.fetchRecentMessages(channel, 10);
-      
-      // Filter out the current message to avoid including it in context
-      const contextMessages = recentMessages.filter(msg => msg.id !== message.id);
-      
-      const llmResult = await TranslateLLMService.translate({
-        text: message.content,
-        targetLanguage: targetLanguage,
-        originLanguage: sourceLanguage,
-        contextMessages: [message, ...contextMessages] // Include current message for ID extraction
-      });
+      const result = await this.translateWithProviders(
+        message,
+        sourceLanguage,
+        targetLanguage,
+        settings,
+        glossary,
+        signal
+      );
 
-      return llmResult.translatedText;
+      console.log(
+        `${result.provider}${result.model ? ` (${result.model})` : ""} translated "${message.content}" from ${sourceLanguage} to ${targetLanguage}: "${result.translatedText}"`
+      );
+
+      // Only results of the first provider are remembered, fallbacks should be retried next time
+      if (!result.fallback) {
+        TranslationMemoryService.store(memoryKey, result.translatedText);
+        return result.translatedText;
+      }
+
+      // Add indicator for fallback
+      return `${result.translatedText}${settings.fallbackMarker}`;
     } catch (error) {
-      console.error('LLM translation failed:', error);
-      throw error;
+      if (signal?.aborted) {
+        console.warn(
+          `Translation of message ${message.id} to ${targetLanguage} was cancelled:`,
+          signal.reason instanceof Error ? signal.reason.message : signal.reason
+        );
+      } else {
+        console.error(
+          `Translation failed for message "${message.content}" to ${targetLanguage}:`,
+          error
+        );
+      }
+
+      // Pass the original message through with an error indicator
+      return `[Translation Error] ${message.content}`;
     }
   }
 
+  private async translateWithProviders(
+    message: Message,
+    sourceLanguage: string,
+    targetLanguage: string,
+    settings: TranslationSettings,
+    glossary?: TranslationGlossary,
+    signal?: AbortSignal
+  ) {
+    const chain = SyncSettingsService.getProviderChain(settings);
+
+    // Fetch recent messages for context
+    const contextMessages = TranslationProviderRegistry.usesContext(chain)
+      ? await this.fetchContextMessages(message, settings.contextDepth)
+      : [];
+
+    return TranslationProviderRegistry.translate(chain, {
+      text: message.content,
+      targetLanguage: targetLanguage,
+      originLanguage: sourceLanguage,
+      contextMessages: [message, ...contextMessages], // Include current message for ID extraction
+      model: settings.model,
+      formality: settings.formality,
+      glossary,
+      guildId: message.guild?.id,
+      signal,
+    });
+  }
+
   public async getBotUserId(): Promise<string | null> {
     if (this.client.user) {
       return this.client.user.id;
@@ -317,11 +904,11 @@ export class SyncMessageService {
     language?: string;
     groups: string[];
   }> {
-    const language = await SyncStorageService.getChannelLanguage(
+    const language = SyncTopologyService.getChannelLanguage(
       serverId,
       channelId
     );
-    const syncGroups = await this.findChannelSyncGroups(serverId, channelId);
+    const syncGroups = this.findChannelSyncGroups(serverId, channelId);
 
     return {
       isSync: language !== null,
@@ -334,13 +921,15 @@ export class SyncMessageService {
     return MessageQueueManager.getQueueStats();
   }
 
+  public getTranslationMemoryStats() {
+    return TranslationMemoryService.getMemoryStats();
+  }
+
   public getTranslationServiceInfo() {
     return {
-      primary: TranslateLLMService.getModelInfo(),
-      fallback: {
-        provider: "Google Translate",
-        model: "translate_a/single"
-      }
+      defaultChain: SyncSettingsService.DEFAULT_SETTINGS.providers,
+      providers: TranslationProviderRegistry.getProviderInfo(),
+      pendingTranslations: TranslationCancellationService.getPendingCount(),
     };
   }
 
@@ -0,0 +1,139 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  PermissionFlagsBits,
+  type InteractionReplyOptions,
+} from 'discord.js';
+import { TranslationProviderRegistry, type ProviderInfo } from './providers/provider-registry';
+import { ProviderHealthService } from './providers/provider-health.service';
+import { InteractionUtils } from '../utils/interaction.utils';
+
+const EMBED_COLOR = 0x5865f2;
+
+const STATE_LABELS = {
+  closed: '🟢 healthy',
+  'half-open': '🟡 probing',
+  open: '🔴 skipped',
+};
+
+const PROVIDER_CHOICES = TranslationProviderRegistry.getProviderInfo().map(provider => ({
+  name: provider.name,
+  value: provider.id
+}));
+
+function formatRelativeTime(timestamp?: number): string {
+  return timestamp ? `<t:${Math.floor(timestamp / 1000)}:R>` : 'never';
+}
+
+function formatProviderField(provider: ProviderInfo): { name: string; value: string } {
+  const { health, capabilities, rateLimit } = provider;
+
+  if (!provider.configured) {
+    return { name: `${provider.name} \`${provider.id}\``, value: '⚪ not configured' };
+  }
+
+  const lines = [
+    `${STATE_LABELS[health.state]} · ${health.totalSuccesses} ok / ${health.totalFailures} failed`,
+    `Last success ${formatRelativeTime(health.lastSuccessAt)} · last failure ${formatRelativeTime(health.lastFailureAt)}`,
+  ];
+
+  if (health.state === 'open' && health.openedAt) {
+    lines.push(`Next probe ${formatRelativeTime(health.openedAt + health.cooldownMs)}`);
+  }
+  if (health.lastError && health.consecutiveFailures > 0) {
+    lines.push(`Last error: \`${health.lastError.slice(0, 200)}\``);
+  }
+
+  lines.push(
+    `${rateLimit.active}/${rateLimit.maxConcurrency} running · ${rateLimit.queued} queued` +
+    ` · ${rateLimit.requestsPerSecond} req/s` +
+    `${Number.isFinite(rateLimit.tokensPerMinute) ? ` · ${rateLimit.tokensPerMinute} tokens/min` : ''}` +
+    ` · avg wait ${rateLimit.averageWaitMs} ms`
+  );
+  lines.push(
+    `${capabilities.maxTextLength} chars per request` +
+    `${capabilities.supportsContext ? ' · context' : ''}` +
+    `${capabilities.supportsGlossary ? ' · glossary' : ''}` +
+    `${capabilities.supportsBatch ? ' · batch' : ''}`
+  );
+
+  return { name: `${provider.name} \`${provider.id}\``, value: lines.join('\n') };
+}
+
+async function executeStatus(interaction: ChatInputCommandInteraction) {
+  const embed = new EmbedBuilder()
+    .setTitle('Translation providers')
+    .setColor(EMBED_COLOR)
+    .setDescription(
+      `Providers are skipped for a while after ${ProviderHealthService.FAILURE_THRESHOLD} failures in a row.\n` +
+      `Default chain: \`${TranslationProviderRegistry.DEFAULT_CHAIN.join(' → ')}\``
+    )
+    .addFields(TranslationProviderRegistry.getProviderInfo().map(formatProviderField));
+
+  await interaction.reply({ embeds: [embed], flags: ['Ephemeral'] } as InteractionReplyOptions);
+}
+
+async function executeReset(interaction: ChatInputCommandInteraction) {
+  const providerId = interaction.options.getString('provider', true);
+  const provider = TranslationProviderRegistry.get(providerId);
+
+  if (!provider) {
+    await interaction.reply({
+      content: `❌ \`${providerId}\` is not a known translation provider.`,
+      flags: ['Ephemeral']
+    } as InteractionReplyOptions);
+    return;
+  }
+
+  ProviderHealthService.reset(provider.id);
+  console.log(`Sync providers reset executed by ${interaction.user.tag} - Provider: ${provider.id}`);
+
+  await interaction.reply({
+    content: `✅ **${provider.name}** is marked healthy again and will receive translations right away.`,
+    flags: ['Ephemeral']
+  } as InteractionReplyOptions);
+}
+
+export const syncProvidersCommand = {
+  data: new SlashCommandBuilder()
+    .setName('sync-providers')
+    .setDescription('Show the health of translation providers')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('status')
+        .setDescription('Show which translation providers are healthy or skipped')
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('reset')
+        .setDescription('Stop skipping a provider after it has recovered')
+        .addStringOption(option =>
+          option
+            .setName('provider')
+            .setDescription('Provider to reset')
+            .setRequired(true)
+            .addChoices(...PROVIDER_CHOICES)
+        )
+    ),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    try {
+      switch (interaction.options.getSubcommand()) {
+        case 'status':
+          await executeStatus(interaction);
+          break;
+        case 'reset':
+          await executeReset(interaction);
+          break;
+      }
+    } catch (error) {
+      console.error('Error executing sync-providers command:', error);
+      await InteractionUtils.replyWithError(
+        interaction,
+        '❌ Failed to read translation provider health. Please try again.'
+      );
+    }
+  },
+};
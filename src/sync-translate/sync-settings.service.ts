@@ -0,0 +1,223 @@
+import { TranslateLLMService } from "./translate-llm.service";
+import { TranslationProviderRegistry } from "./providers/provider-registry";
+
+export type Formality = "default" | "formal" | "informal";
+
+export interface TranslationSettings {
+  providers: string[]; // Tried in order until one succeeds
+  model: string;
+  fallbackEnabled: boolean;
+  fallbackMarker: string;
+  contextDepth: number;
+  displayFormat: string;
+  formality: Formality;
+  voiceTranscription: boolean;
+}
+
+export type SettingKey = keyof TranslationSettings;
+
+export interface DisplayNameParts {
+  displayName: string;
+  username: string;
+  channel: string;
+  server: string;
+}
+
+interface SettingDefinition<K extends SettingKey> {
+  label: string;
+  description: string;
+  // Throws a user-facing error when the value is invalid
+  parse(value: string): TranslationSettings[K];
+}
+
+const TRUE_VALUES = ["on", "true", "yes", "enabled", "1"];
+const FALSE_VALUES = ["off", "false", "no", "disabled", "0"];
+
+function parseBoolean(value: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  throw new Error(`\`${value}\` is not a valid value, use \`on\` or \`off\`.`);
+}
+
+export class SyncSettingsService {
+  public static readonly MAX_CONTEXT_DEPTH = 25;
+  public static readonly MAX_DISPLAY_NAME_LENGTH = 80; // Discord webhook username limit
+
+  public static readonly DEFAULT_SETTINGS: TranslationSettings = {
+    providers: TranslationProviderRegistry.DEFAULT_CHAIN,
+    model: TranslateLLMService.getModelInfo().model,
+    fallbackEnabled: true,
+    fallbackMarker: " 🔄",
+    contextDepth: 10,
+    displayFormat: "{displayName} [#{channel}]",
+    formality: "default",
+    voiceTranscription: true,
+  };
+
+  private static readonly DEFINITIONS: {
+    [K in SettingKey]: SettingDefinition<K>;
+  } = {
+    providers: {
+      label: "Translation providers",
+      description: `Providers tried in order, from ${TranslationProviderRegistry.getProviderIds().join(", ")}`,
+      parse: (value) => {
+        const providers = [
+          ...new Set(value.toLowerCase().split(/[\s,>]+/).filter(Boolean)),
+        ];
+        const unknown = providers.filter((id) => !TranslationProviderRegistry.get(id));
+        if (providers.length === 0 || unknown.length > 0) {
+          throw new Error(
+            `Use a comma separated list of ${TranslationProviderRegistry.getProviderIds().join(", ")}.`
+          );
+        }
+        return providers;
+      },
+    },
+    model: {
+      label: "Model",
+      description: "Mistral model used for LLM translations",
+      parse: (value) => {
+        const model = value.trim();
+        if (!/^[\w.:-]+$/.test(model)) {
+          throw new Error(`\`${value}\` is not a valid model name.`);
+        }
+        return model;
+      },
+    },
+    fallbackEnabled: {
+      label: "Fallback providers",
+      description: "Try the next translation providers when the first one fails",
+      parse: parseBoolean,
+    },
+    fallbackMarker: {
+      label: "Fallback marker",
+      description: "Text appended to translations made by a fallback provider",
+      parse: (value) => (value.trim().toLowerCase() === "none" ? "" : ` ${value.trim()}`),
+    },
+    contextDepth: {
+      label: "Context depth",
+      description: "Number of recent messages given to the LLM as context",
+      parse: (value) => {
+        const depth = Number(value.trim());
+        if (!Number.isInteger(depth) || depth < 0 || depth > this.MAX_CONTEXT_DEPTH) {
+          throw new Error(`Context depth must be a whole number between 0 and ${this.MAX_CONTEXT_DEPTH}.`);
+        }
+        return depth;
+      },
+    },
+    displayFormat: {
+      label: "Display format",
+      description: "Name of mirrored messages, supports {displayName}, {username}, {channel} and {server}",
+      parse: (value) => {
+        const format = value.trim();
+        if (!format.includes("{displayName}") && !format.includes("{username}")) {
+          throw new Error("The display format must contain `{displayName}` or `{username}`.");
+        }
+        return format;
+      },
+    },
+    formality: {
+      label: "Formality",
+      description: "Register used for translations: default, formal or informal",
+      parse: (value) => {
+        const formality = value.trim().toLowerCase();
+        if (formality !== "default" && formality !== "formal" && formality !== "informal") {
+          throw new Error("Formality must be `default`, `formal` or `informal`.");
+        }
+        return formality;
+      },
+    },
+    voiceTranscription: {
+      label: "Voice transcription",
+      description: "Transcribe voice messages and sync the transcription",
+      parse: parseBoolean,
+    },
+  };
+
+  public static getSettingKeys(): SettingKey[] {
+    return Object.keys(this.DEFINITIONS) as SettingKey[];
+  }
+
+  public static isSettingKey(key: string): key is SettingKey {
+    return key in this.DEFINITIONS;
+  }
+
+  public static getLabel(key: SettingKey): string {
+    return this.DEFINITIONS[key].label;
+  }
+
+  public static getDescription(key: SettingKey): string {
+    return this.DEFINITIONS[key].description;
+  }
+
+  public static parseValue<K extends SettingKey>(
+    key: K,
+    value: string
+  ): TranslationSettings[K] {
+    return this.DEFINITIONS[key].parse(value);
+  }
+
+  // Values are stored as strings, this turns them back into settings
+  public static parseStoredSettings(
+    stored: Record<string, string>
+  ): Partial<TranslationSettings> {
+    const settings: Partial<TranslationSettings> = {};
+
+    for (const [key, value] of Object.entries(stored)) {
+      if (!this.isSettingKey(key)) {
+        continue;
+      }
+
+      try {
+        (settings as Record<SettingKey, unknown>)[key] = this.parseValue(key, value);
+      } catch (error) {
+        console.warn(`Ignoring invalid stored value for setting ${key}:`, error);
+      }
+    }
+
+    return settings;
+  }
+
+  public static serializeValue<K extends SettingKey>(
+    key: K,
+    value: TranslationSettings[K]
+  ): string {
+    if (key === "fallbackMarker") {
+      return (value as string).trim() || "none";
+    }
+    if (typeof value === "boolean") {
+      return value ? "on" : "off";
+    }
+    if (Array.isArray(value)) {
+      return value.join(",");
+    }
+    return String(value);
+  }
+
+  // Later layers override earlier ones: group defaults, then channel overrides
+  public static resolve(
+    ...layers: Array<Partial<TranslationSettings> | undefined>
+  ): TranslationSettings {
+    return Object.assign({}, this.DEFAULT_SETTINGS, ...layers.filter(Boolean));
+  }
+
+  // Without fallback only the first provider is ever asked
+  public static getProviderChain(settings: TranslationSettings): string[] {
+    return settings.fallbackEnabled ? settings.providers : settings.providers.slice(0, 1);
+  }
+
+  public static formatDisplayName(
+    format: string,
+    parts: DisplayNameParts
+  ): string {
+    const name = format
+      .replaceAll("{displayName}", parts.displayName)
+      .replaceAll("{username}", parts.username)
+      .replaceAll("{channel}", parts.channel)
+      .replaceAll("{server}", parts.server)
+      .trim();
+
+    return name.slice(0, this.MAX_DISPLAY_NAME_LENGTH) || parts.username;
+  }
+}
@@ -1,82 +1,588 @@
+import { Database } from "bun:sqlite";
+import { randomBytes, randomUUID } from "crypto";
+import { statSync, watch, type FSWatcher } from "fs";
+import { basename, dirname } from "path";
+
+// broadcast channels only send, receive-only channels only receive
+export type ChannelDirection = "bidirectional" | "broadcast" | "receive-only";
+
 export interface ChannelLanguageConfig {
   language: string;
   channelId: string;
+  serverId: string;
+  direction: ChannelDirection;
+}
+
+export interface SyncGroup {
+  id: string;
+  name: string; // The channel group ID users type in commands
+  ownerServerId: string;
+  serverIds: string[];
+  channels: ChannelLanguageConfig[];
+}
+
+export interface SyncGroupInvite {
+  code: string;
+  groupId: string;
+  serverId: string;
+  createdBy: string;
+  createdAt: number;
+  expiresAt: number;
 }
 
 export interface SyncTranslationStorage {
+  version: number;
+  groups: {
+    [groupId: string]: SyncGroup;
+  };
+  invites: {
+    [code: string]: SyncGroupInvite;
+  };
+}
+
+// Format used before groups could span servers
+export interface LegacySyncTranslationStorage {
   [serverId: string]: {
-    [channelGroupId: string]: ChannelLanguageConfig[];
+    [channelGroupId: string]: Array<{ language: string; channelId: string }>;
   };
 }
 
+// A term without translations must never be translated
+export interface GlossaryEntry {
+  term: string;
+  translations: { [language: string]: string };
+}
+
+export interface GroupGlossary {
+  version: number; // Bumped on every change
+  entries: GlossaryEntry[];
+}
+
+export interface StoredSettings {
+  groups: { [groupId: string]: Record<string, string> };
+  channels: { [channelId: string]: Record<string, string> };
+}
+
+export type RedeemInviteResult =
+  | { success: true; group: SyncGroup }
+  | { success: false; reason: string };
+
+interface GroupRow {
+  id: string;
+  name: string;
+  owner_server_id: string;
+}
+
+interface ChannelRow {
+  channel_id: string;
+  server_id: string;
+  language: string;
+  direction: ChannelDirection;
+}
+
+interface InviteRow {
+  code: string;
+  group_id: string;
+  server_id: string;
+  created_by: string;
+  created_at: number;
+  expires_at: number;
+}
+
+// Each entry upgrades the schema by one version, tracked in PRAGMA user_version
+const SCHEMA_MIGRATIONS = [
+  `
+  CREATE TABLE sync_groups (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    owner_server_id TEXT NOT NULL
+  );
+  CREATE TABLE group_servers (
+    group_id TEXT NOT NULL REFERENCES sync_groups(id) ON DELETE CASCADE,
+    server_id TEXT NOT NULL,
+    PRIMARY KEY (group_id, server_id)
+  );
+  CREATE INDEX idx_group_servers_server ON group_servers(server_id);
+  CREATE TABLE group_channels (
+    group_id TEXT NOT NULL REFERENCES sync_groups(id) ON DELETE CASCADE,
+    channel_id TEXT NOT NULL,
+    server_id TEXT NOT NULL,
+    language TEXT NOT NULL,
+    PRIMARY KEY (group_id, channel_id)
+  );
+  CREATE INDEX idx_group_channels_channel ON group_channels(channel_id);
+  CREATE TABLE channel_settings (
+    channel_id TEXT NOT NULL,
+    server_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    PRIMARY KEY (channel_id, key)
+  );
+  CREATE TABLE sync_invites (
+    code TEXT PRIMARY KEY,
+    group_id TEXT NOT NULL REFERENCES sync_groups(id) ON DELETE CASCADE,
+    server_id TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE group_settings (
+    group_id TEXT NOT NULL REFERENCES sync_groups(id) ON DELETE CASCADE,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    PRIMARY KEY (group_id, key)
+  );
+  `,
+  `
+  ALTER TABLE group_channels ADD COLUMN direction TEXT NOT NULL DEFAULT 'bidirectional';
+  `,
+  `
+  CREATE TABLE glossary_terms (
+    group_id TEXT NOT NULL REFERENCES sync_groups(id) ON DELETE CASCADE,
+    term TEXT NOT NULL COLLATE NOCASE,
+    translations TEXT NOT NULL DEFAULT '{}',
+    PRIMARY KEY (group_id, term)
+  );
+  ALTER TABLE sync_groups ADD COLUMN glossary_version INTEGER NOT NULL DEFAULT 0;
+  `,
+];
+
 export class SyncStorageService {
-  private static readonly STORAGE_FILE_PATH = "./sync-translations.json";
+  private static readonly DATABASE_FILE_PATH = "./sync-translations.db";
+  private static readonly LEGACY_STORAGE_FILE_PATH = "./sync-translations.json";
+  private static readonly STORAGE_VERSION = 2;
+  private static readonly INVITE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+  private static readonly WATCH_DEBOUNCE_MS = 500;
 
-  public static async loadSyncData(): Promise<SyncTranslationStorage> {
-    try {
-      const file = Bun.file(this.STORAGE_FILE_PATH);
-      const exists = await file.exists();
+  private static database: Promise<Database> | null = null;
+  private static listeners = new Set<() => void>();
+  private static watcher: FSWatcher | null = null;
+  private static watchTimeout: NodeJS.Timeout | null = null;
+  private static lastDataVersion: number | null = null;
+  private static databaseInode: number | null = null; // Inode of the file the open handle reads
 
-      if (!exists) {
-        return {};
+  public static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    this.watchDatabaseFile();
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static notifyChange(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error("Error in sync storage change listener:", error);
       }
+    }
+  }
 
-      const content = await file.text();
-      return JSON.parse(content) as SyncTranslationStorage;
+  private static watchDatabaseFile(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    // Watch the directory, a watch on the file itself would stop when the file is
+    // replaced, but only react to the database and its WAL file
+    const fileName = basename(this.DATABASE_FILE_PATH);
+    const watchedFiles = [fileName, `${fileName}-wal`];
+    this.watcher = watch(dirname(this.DATABASE_FILE_PATH), (_event, changedFile) => {
+      if (!changedFile || !watchedFiles.includes(changedFile)) {
+        return;
+      }
+
+      if (this.watchTimeout) {
+        clearTimeout(this.watchTimeout);
+      }
+      this.watchTimeout = setTimeout(() => {
+        this.watchTimeout = null;
+        this.checkExternalChanges().catch((error) =>
+          console.error("Error reloading sync translation data:", error)
+        );
+      }, this.WATCH_DEBOUNCE_MS);
+    });
+  }
+
+  private static async checkExternalChanges(): Promise<void> {
+    // The open handle keeps reading a replaced file, so a new file means reopening.
+    // Whoever replaces the file has to remove its old -wal and -shm files with it
+    const inode = this.readDatabaseInode();
+    if (inode !== null && this.databaseInode !== null && inode !== this.databaseInode) {
+      const previous = this.database;
+      this.database = null;
+      (await previous?.catch(() => null))?.close();
+      await this.getDatabase();
+      console.log("Sync translation database file was replaced, reloading");
+      this.notifyChange();
+      return;
+    }
+
+    const db = await this.getDatabase();
+
+    // data_version only changes when another connection committed, so our own writes are ignored
+    const { data_version: dataVersion } = db
+      .query<{ data_version: number }, []>("PRAGMA data_version")
+      .get()!;
+
+    if (this.lastDataVersion !== null && dataVersion !== this.lastDataVersion) {
+      console.log("Sync translation data changed externally, reloading");
+      this.notifyChange();
+    }
+    this.lastDataVersion = dataVersion;
+  }
+
+  private static getDatabase(): Promise<Database> {
+    // Share one open promise so concurrent first calls don't import twice
+    if (!this.database) {
+      this.database = this.openDatabase().catch((error) => {
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+
+  private static async openDatabase(): Promise<Database> {
+    const db = new Database(this.DATABASE_FILE_PATH, { create: true });
+    db.exec("PRAGMA journal_mode = WAL");
+    db.exec("PRAGMA foreign_keys = ON");
+
+    const { user_version: schemaVersion } = db
+      .query<{ user_version: number }, []>("PRAGMA user_version")
+      .get()!;
+
+    if (schemaVersion < SCHEMA_MIGRATIONS.length) {
+      try {
+        // The JSON import is part of the first migration, if it fails the schema
+        // version stays at 0 and the import is tried again on the next start
+        const imported = schemaVersion === 0 ? await this.readJsonStorage() : null;
+
+        db.transaction(() => {
+          for (let version = schemaVersion; version < SCHEMA_MIGRATIONS.length; version++) {
+            db.exec(SCHEMA_MIGRATIONS[version]!);
+          }
+          if (imported) {
+            this.writeAll(db, imported);
+          }
+          db.exec(`PRAGMA user_version = ${SCHEMA_MIGRATIONS.length}`);
+        })();
+
+        if (imported) {
+          console.log(
+            `Imported ${Object.keys(imported.groups).length} sync groups from ${this.LEGACY_STORAGE_FILE_PATH}, the file is kept as a backup`
+          );
+        }
+      } catch (error) {
+        db.close();
+        throw error;
+      }
+
+      console.log(
+        `Sync storage schema upgraded from version ${schemaVersion} to ${SCHEMA_MIGRATIONS.length}`
+      );
+    }
+
+    this.lastDataVersion = db
+      .query<{ data_version: number }, []>("PRAGMA data_version")
+      .get()!.data_version;
+    this.databaseInode = this.readDatabaseInode();
+
+    return db;
+  }
+
+  private static readDatabaseInode(): number | null {
+    try {
+      return statSync(this.DATABASE_FILE_PATH).ino;
+    } catch {
+      // The file is being replaced, the next change event checks again
+      return null;
+    }
+  }
+
+  // Returns null when there is nothing to import, an unreadable file is an error
+  // so existing sync groups are never silently left behind
+  private static async readJsonStorage(): Promise<SyncTranslationStorage | null> {
+    const file = Bun.file(this.LEGACY_STORAGE_FILE_PATH);
+    if (!(await file.exists())) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(await file.text());
+      return typeof parsed.version === "number"
+        ? (parsed as SyncTranslationStorage)
+        : this.migrateLegacyData(parsed as LegacySyncTranslationStorage);
     } catch (error) {
-      console.error("Error loading sync translation data:", error);
-      return {};
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Could not import sync translation data from ${this.LEGACY_STORAGE_FILE_PATH}, fix or remove the file: ${message}`
+      );
     }
   }
 
+  // Upserts groups, channels and invites and only deletes the rows that are gone,
+  // so group settings and glossaries of groups that stay are kept
+  private static writeAll(db: Database, data: SyncTranslationStorage): void {
+    db.transaction(() => {
+      const groupIds = Object.keys(data.groups);
+      db.query("DELETE FROM sync_groups WHERE id NOT IN (SELECT value FROM json_each(?))").run(
+        JSON.stringify(groupIds)
+      );
+
+      for (const group of Object.values(data.groups)) {
+        this.upsertGroup(db, group);
+      }
+
+      db.query("DELETE FROM sync_invites WHERE code NOT IN (SELECT value FROM json_each(?))").run(
+        JSON.stringify(Object.keys(data.invites))
+      );
+
+      for (const invite of Object.values(data.invites)) {
+        db.query(
+          "INSERT OR REPLACE INTO sync_invites (code, group_id, server_id, created_by, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)"
+        ).run(
+          invite.code,
+          invite.groupId,
+          invite.serverId,
+          invite.createdBy,
+          invite.createdAt,
+          invite.expiresAt
+        );
+      }
+
+      this.pruneChannelSettings(db);
+    })();
+  }
+
+  private static upsertGroup(db: Database, group: SyncGroup): void {
+    db.query(
+      "INSERT INTO sync_groups (id, name, owner_server_id) VALUES (?, ?, ?) ON CONFLICT(id) DO UPDATE SET name = excluded.name, owner_server_id = excluded.owner_server_id"
+    ).run(group.id, group.name, group.ownerServerId);
+
+    db.query(
+      "DELETE FROM group_servers WHERE group_id = ? AND server_id NOT IN (SELECT value FROM json_each(?))"
+    ).run(group.id, JSON.stringify(group.serverIds));
+    for (const serverId of group.serverIds) {
+      db.query(
+        "INSERT OR IGNORE INTO group_servers (group_id, server_id) VALUES (?, ?)"
+      ).run(group.id, serverId);
+    }
+
+    db.query(
+      "DELETE FROM group_channels WHERE group_id = ? AND channel_id NOT IN (SELECT value FROM json_each(?))"
+    ).run(group.id, JSON.stringify(group.channels.map((config) => config.channelId)));
+    for (const config of group.channels) {
+      db.query(
+        "INSERT INTO group_channels (group_id, channel_id, server_id, language, direction) VALUES (?, ?, ?, ?, ?) ON CONFLICT(group_id, channel_id) DO UPDATE SET server_id = excluded.server_id, language = excluded.language, direction = excluded.direction"
+      ).run(
+        group.id,
+        config.channelId,
+        config.serverId,
+        config.language,
+        // Storage imported from JSON predates directions
+        config.direction ?? "bidirectional"
+      );
+    }
+  }
+
+  private static insertGroup(db: Database, group: SyncGroup): void {
+    db.query(
+      "INSERT INTO sync_groups (id, name, owner_server_id) VALUES (?, ?, ?)"
+    ).run(group.id, group.name, group.ownerServerId);
+
+    for (const serverId of group.serverIds) {
+      db.query(
+        "INSERT OR IGNORE INTO group_servers (group_id, server_id) VALUES (?, ?)"
+      ).run(group.id, serverId);
+    }
+
+    for (const config of group.channels) {
+      db.query(
+        "INSERT OR REPLACE INTO group_channels (group_id, channel_id, server_id, language, direction) VALUES (?, ?, ?, ?, ?)"
+      ).run(
+        group.id,
+        config.channelId,
+        config.serverId,
+        config.language,
+        // Storage imported from JSON predates directions
+        config.direction ?? "bidirectional"
+      );
+    }
+  }
+
+  private static readGroup(db: Database, row: GroupRow): SyncGroup {
+    const serverIds = db
+      .query<{ server_id: string }, [string]>(
+        "SELECT server_id FROM group_servers WHERE group_id = ? ORDER BY rowid"
+      )
+      .all(row.id)
+      .map((server) => server.server_id);
+
+    const channels = db
+      .query<ChannelRow, [string]>(
+        "SELECT channel_id, server_id, language, direction FROM group_channels WHERE group_id = ? ORDER BY rowid"
+      )
+      .all(row.id)
+      .map((channel) => ({
+        language: channel.language,
+        channelId: channel.channel_id,
+        serverId: channel.server_id,
+        direction: channel.direction,
+      }));
+
+    return {
+      id: row.id,
+      name: row.name,
+      ownerServerId: row.owner_server_id,
+      serverIds,
+      channels,
+    };
+  }
+
+  // Settings only make sense while the channel is synced somewhere
+  private static pruneChannelSettings(db: Database): void {
+    db.exec(
+      "DELETE FROM channel_settings WHERE channel_id NOT IN (SELECT channel_id FROM group_channels)"
+    );
+  }
+
+  public static async loadSyncData(): Promise<SyncTranslationStorage> {
+    const db = await this.getDatabase();
+    const data = this.createEmptyStorage();
+
+    for (const row of db
+      .query<GroupRow, []>("SELECT id, name, owner_server_id FROM sync_groups ORDER BY rowid")
+      .all()) {
+      data.groups[row.id] = this.readGroup(db, row);
+    }
+
+    for (const row of db.query<InviteRow, []>("SELECT * FROM sync_invites").all()) {
+      data.invites[row.code] = {
+        code: row.code,
+        groupId: row.group_id,
+        serverId: row.server_id,
+        createdBy: row.created_by,
+        createdAt: row.created_at,
+        expiresAt: row.expires_at,
+      };
+    }
+
+    return data;
+  }
+
   public static async saveSyncData(
     data: SyncTranslationStorage
   ): Promise<void> {
     try {
-      const jsonContent = JSON.stringify(data, null, 2);
-      await Bun.write(this.STORAGE_FILE_PATH, jsonContent);
+      this.writeAll(await this.getDatabase(), data);
       console.log("Sync translation data saved successfully");
+      this.notifyChange();
     } catch (error) {
       console.error("Error saving sync translation data:", error);
       throw new Error("Failed to save sync translation settings");
     }
   }
 
+  private static createEmptyStorage(): SyncTranslationStorage {
+    return { version: this.STORAGE_VERSION, groups: {}, invites: {} };
+  }
+
+  public static migrateLegacyData(
+    legacy: LegacySyncTranslationStorage
+  ): SyncTranslationStorage {
+    const data = this.createEmptyStorage();
+
+    for (const [serverId, groups] of Object.entries(legacy)) {
+      for (const [name, channels] of Object.entries(groups)) {
+        const id = randomUUID();
+        data.groups[id] = {
+          id,
+          name,
+          ownerServerId: serverId,
+          serverIds: [serverId],
+          channels: channels.map((config) => ({
+            ...config,
+            serverId,
+            direction: "bidirectional",
+          })),
+        };
+      }
+    }
+
+    console.log(
+      `Migrated ${Object.keys(data.groups).length} sync groups to storage version ${this.STORAGE_VERSION}`
+    );
+    return data;
+  }
+
+  // Group names are unique among the groups a server is a member of
+  private static findServerGroup(
+    db: Database,
+    serverId: string,
+    channelGroupId: string
+  ): SyncGroup | undefined {
+    const row = db
+      .query<GroupRow, [string, string]>(
+        `SELECT g.id, g.name, g.owner_server_id FROM sync_groups g
+         JOIN group_servers s ON s.group_id = g.id
+         WHERE g.name = ? AND s.server_id = ?`
+      )
+      .get(channelGroupId, serverId);
+
+    return row ? this.readGroup(db, row) : undefined;
+  }
+
   public static async addChannelToGroup(
     serverId: string,
     channelGroupId: string,
     channelId: string,
-    language: string
+    language: string,
+    direction?: ChannelDirection
   ): Promise<void> {
-    const data = await this.loadSyncData();
+    const db = await this.getDatabase();
 
-    if (!data[serverId]) {
-      data[serverId] = {};
-    }
-
-    if (!data[serverId][channelGroupId]) {
-      data[serverId][channelGroupId] = [];
-    }
-
-    // Check if channel already exists in this group
-    const existingChannelIndex = data[serverId][channelGroupId].findIndex(
-      (config) => config.channelId === channelId
-    );
+    try {
+      db.transaction(() => {
+        const group = this.findServerGroup(db, serverId, channelGroupId);
 
-    const newConfig: ChannelLanguageConfig = {
-      language,
-      channelId,
-    };
+        if (!group) {
+          this.insertGroup(db, {
+            id: randomUUID(),
+            name: channelGroupId,
+            ownerServerId: serverId,
+            serverIds: [serverId],
+            channels: [
+              {
+                language,
+                channelId,
+                serverId,
+                direction: direction ?? "bidirectional",
+              },
+            ],
+          });
+          return;
+        }
 
-    if (existingChannelIndex >= 0) {
-      // Update existing channel
-      data[serverId][channelGroupId][existingChannelIndex] = newConfig;
-    } else {
-      // Add new channel
-      data[serverId][channelGroupId].push(newConfig);
+        // Update in place so the channel keeps its position, and its direction unless a new one is given
+        db.query(
+          `INSERT INTO group_channels (group_id, channel_id, server_id, language, direction) VALUES (?1, ?2, ?3, ?4, COALESCE(?5, 'bidirectional'))
+           ON CONFLICT (group_id, channel_id) DO UPDATE SET
+             server_id = excluded.server_id,
+             language = excluded.language,
+             direction = COALESCE(?5, direction)`
+        ).run(group.id, channelId, serverId, language, direction ?? null);
+      })();
+    } catch (error) {
+      console.error("Error saving sync translation data:", error);
+      throw new Error("Failed to save sync translation settings");
     }
 
-    await this.saveSyncData(data);
+    this.notifyChange();
   }
 
   public static async removeChannelFromGroup(
@@ -84,48 +590,284 @@ export class SyncStorageService {
     channelGroupId: string,
     channelId: string
   ): Promise<boolean> {
-    const data = await this.loadSyncData();
+    const db = await this.getDatabase();
 
-    if (!data[serverId] || !data[serverId][channelGroupId]) {
-      return false;
+    const wasRemoved = db.transaction(() => {
+      const group = this.findServerGroup(db, serverId, channelGroupId);
+
+      if (!group) {
+        return false;
+      }
+
+      const { changes } = db
+        .query("DELETE FROM group_channels WHERE group_id = ? AND channel_id = ?")
+        .run(group.id, channelId);
+
+      // Remove empty group
+      if (group.channels.length - changes === 0 && group.serverIds.length <= 1) {
+        db.query("DELETE FROM sync_groups WHERE id = ?").run(group.id);
+      }
+
+      this.pruneChannelSettings(db);
+      return changes > 0;
+    })();
+
+    if (wasRemoved) {
+      this.notifyChange();
     }
+    return wasRemoved;
+  }
 
-    const initialLength = data[serverId][channelGroupId].length;
-    data[serverId][channelGroupId] = data[serverId][channelGroupId].filter(
-      (config) => config.channelId !== channelId
-    );
+  public static async getGroup(
+    serverId: string,
+    channelGroupId: string
+  ): Promise<SyncGroup | null> {
+    const db = await this.getDatabase();
+    return this.findServerGroup(db, serverId, channelGroupId) || null;
+  }
 
-    // Remove empty group
-    if (data[serverId][channelGroupId].length === 0) {
-      delete data[serverId][channelGroupId];
+  public static async renameGroup(
+    serverId: string,
+    channelGroupId: string,
+    newChannelGroupId: string
+  ): Promise<boolean> {
+    const db = await this.getDatabase();
+
+    const renamed = db.transaction(() => {
+      const group = this.findServerGroup(db, serverId, channelGroupId);
+
+      // Only the owning server may rename, and the name must stay unique for every member
+      if (!group || group.ownerServerId !== serverId) {
+        return false;
+      }
+
+      const nameTaken = group.serverIds.some((memberServerId) =>
+        this.findServerGroup(db, memberServerId, newChannelGroupId)
+      );
+      if (nameTaken) {
+        return false;
+      }
+
+      db.query("UPDATE sync_groups SET name = ? WHERE id = ?").run(
+        newChannelGroupId,
+        group.id
+      );
+      return true;
+    })();
+
+    if (renamed) {
+      this.notifyChange();
     }
+    return renamed;
+  }
+
+  public static async deleteGroup(
+    serverId: string,
+    channelGroupId: string
+  ): Promise<ChannelLanguageConfig[]> {
+    const db = await this.getDatabase();
+
+    const removedChannels = db.transaction(() => {
+      const group = this.findServerGroup(db, serverId, channelGroupId);
+
+      if (!group) {
+        return [];
+      }
+
+      // Channels and invites are removed through ON DELETE CASCADE
+      db.query("DELETE FROM sync_groups WHERE id = ?").run(group.id);
+      this.pruneChannelSettings(db);
+
+      return group.channels;
+    })();
 
-    // Remove empty server
-    if (Object.keys(data[serverId]).length === 0) {
-      delete data[serverId];
+    if (removedChannels.length > 0) {
+      this.notifyChange();
     }
+    return removedChannels;
+  }
 
-    const wasRemoved =
-      initialLength > (data[serverId]?.[channelGroupId]?.length || 0);
+  public static async leaveGroup(
+    serverId: string,
+    channelGroupId: string
+  ): Promise<ChannelLanguageConfig[]> {
+    const db = await this.getDatabase();
 
-    if (wasRemoved) {
-      await this.saveSyncData(data);
+    const removedChannels = db.transaction(() => {
+      const group = this.findServerGroup(db, serverId, channelGroupId);
+
+      if (!group || group.ownerServerId === serverId) {
+        return [];
+      }
+
+      db.query("DELETE FROM group_channels WHERE group_id = ? AND server_id = ?").run(
+        group.id,
+        serverId
+      );
+      db.query("DELETE FROM group_servers WHERE group_id = ? AND server_id = ?").run(
+        group.id,
+        serverId
+      );
+      this.pruneChannelSettings(db);
+
+      return group.channels.filter((config) => config.serverId === serverId);
+    })();
+
+    this.notifyChange();
+    return removedChannels;
+  }
+
+  public static async createInvite(
+    serverId: string,
+    channelGroupId: string,
+    createdBy: string
+  ): Promise<SyncGroupInvite | null> {
+    const db = await this.getDatabase();
+    const group = this.findServerGroup(db, serverId, channelGroupId);
+
+    if (!group) {
+      return null;
     }
 
-    return wasRemoved;
+    // Drop expired invites while we are here
+    const now = Date.now();
+    db.query("DELETE FROM sync_invites WHERE expires_at < ?").run(now);
+
+    const invite: SyncGroupInvite = {
+      code: randomBytes(5).toString("hex").toUpperCase(),
+      groupId: group.id,
+      serverId,
+      createdBy,
+      createdAt: now,
+      expiresAt: now + this.INVITE_TTL_MS,
+    };
+    db.query(
+      "INSERT INTO sync_invites (code, group_id, server_id, created_by, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)"
+    ).run(
+      invite.code,
+      invite.groupId,
+      invite.serverId,
+      invite.createdBy,
+      invite.createdAt,
+      invite.expiresAt
+    );
+
+    return invite;
+  }
+
+  public static async redeemInvite(
+    serverId: string,
+    code: string
+  ): Promise<RedeemInviteResult> {
+    const db = await this.getDatabase();
+
+    const result = db.transaction((): RedeemInviteResult => {
+      const invite = db
+        .query<InviteRow, [string]>("SELECT * FROM sync_invites WHERE code = ?")
+        .get(code.trim().toUpperCase());
+
+      if (!invite || invite.expires_at < Date.now()) {
+        return { success: false, reason: "This invite code is invalid or has expired." };
+      }
+
+      const groupRow = db
+        .query<GroupRow, [string]>("SELECT id, name, owner_server_id FROM sync_groups WHERE id = ?")
+        .get(invite.group_id);
+      if (!groupRow) {
+        return { success: false, reason: "The sync group for this invite no longer exists." };
+      }
+
+      const group = this.readGroup(db, groupRow);
+
+      if (group.serverIds.includes(serverId)) {
+        return { success: false, reason: `This server is already part of sync group **${group.name}**.` };
+      }
+
+      if (this.findServerGroup(db, serverId, group.name)) {
+        return {
+          success: false,
+          reason: `This server already has a sync group named **${group.name}**. Rename it first.`,
+        };
+      }
+
+      // Invites are single use
+      db.query("INSERT INTO group_servers (group_id, server_id) VALUES (?, ?)").run(
+        group.id,
+        serverId
+      );
+      db.query("DELETE FROM sync_invites WHERE code = ?").run(invite.code);
+
+      group.serverIds.push(serverId);
+      return { success: true, group };
+    })();
+
+    if (result.success) {
+      this.notifyChange();
+    }
+    return result;
   }
 
   public static async getChannelGroups(serverId: string): Promise<string[]> {
-    const data = await this.loadSyncData();
-    return Object.keys(data[serverId] || {});
+    const db = await this.getDatabase();
+    return db
+      .query<{ name: string }, [string]>(
+        `SELECT g.name FROM sync_groups g
+         JOIN group_servers s ON s.group_id = g.id
+         WHERE s.server_id = ? ORDER BY g.rowid`
+      )
+      .all(serverId)
+      .map((row) => row.name);
   }
 
   public static async getChannelsInGroup(
     serverId: string,
     channelGroupId: string
   ): Promise<ChannelLanguageConfig[]> {
-    const data = await this.loadSyncData();
-    return data[serverId]?.[channelGroupId] || [];
+    const db = await this.getDatabase();
+    return this.findServerGroup(db, serverId, channelGroupId)?.channels || [];
+  }
+
+  public static async getSyncGroupsForChannel(
+    serverId: string,
+    channelId: string
+  ): Promise<Array<{ groupId: string; channels: ChannelLanguageConfig[] }>> {
+    const db = await this.getDatabase();
+
+    // Groups may span servers, so every channel of a matching group is returned
+    return db
+      .query<GroupRow, [string, string]>(
+        `SELECT g.id, g.name, g.owner_server_id FROM sync_groups g
+         JOIN group_channels c ON c.group_id = g.id
+         WHERE c.channel_id = ? AND c.server_id = ? ORDER BY g.rowid`
+      )
+      .all(channelId, serverId)
+      .map((row) => {
+        const group = this.readGroup(db, row);
+        return { groupId: group.name, channels: group.channels };
+      });
+  }
+
+  public static canSend(config: ChannelLanguageConfig): boolean {
+    return config.direction !== "receive-only";
+  }
+
+  public static canReceive(config: ChannelLanguageConfig): boolean {
+    return config.direction !== "broadcast";
+  }
+
+  // Channels of a group that a message from the source channel should be sent to
+  public static getRoutingTargets(
+    channels: ChannelLanguageConfig[],
+    sourceChannelId: string
+  ): ChannelLanguageConfig[] {
+    const source = channels.find((config) => config.channelId === sourceChannelId);
+    if (!source || !this.canSend(source)) {
+      return [];
+    }
+
+    return channels.filter(
+      (config) => config.channelId !== sourceChannelId && this.canReceive(config)
+    );
   }
 
   public static async getAllSyncData(): Promise<SyncTranslationStorage> {
@@ -133,30 +875,265 @@ export class SyncStorageService {
   }
 
   public static async clearAllData(): Promise<void> {
-    await this.saveSyncData({});
+    await this.saveSyncData(this.createEmptyStorage());
   }
 
   public static async getChannelLanguage(
     serverId: string,
     channelId: string
   ): Promise<string | null> {
-    const data = await this.loadSyncData();
-    const serverData = data[serverId];
+    const db = await this.getDatabase();
+    const row = db
+      .query<{ language: string }, [string, string]>(
+        "SELECT language FROM group_channels WHERE channel_id = ? AND server_id = ? ORDER BY rowid LIMIT 1"
+      )
+      .get(channelId, serverId);
 
-    if (!serverData) return null;
+    return row?.language ?? null;
+  }
 
-    for (const groupId in serverData) {
-      const channels = serverData[groupId];
-      if (channels) {
-        const channelConfig = channels.find(
-          (config) => config.channelId === channelId
-        );
-        if (channelConfig) {
-          return channelConfig.language;
+  public static async getChannelSettings(
+    channelId: string
+  ): Promise<Record<string, string>> {
+    const db = await this.getDatabase();
+    const settings: Record<string, string> = {};
+
+    for (const row of db
+      .query<{ key: string; value: string }, [string]>(
+        "SELECT key, value FROM channel_settings WHERE channel_id = ?"
+      )
+      .all(channelId)) {
+      settings[row.key] = row.value;
+    }
+
+    return settings;
+  }
+
+  public static async setGroupSetting(
+    serverId: string,
+    channelGroupId: string,
+    key: string,
+    value: string | null
+  ): Promise<boolean> {
+    const db = await this.getDatabase();
+    const group = this.findServerGroup(db, serverId, channelGroupId);
+
+    // Group defaults apply to every member server, so only the owner may change them
+    if (!group || group.ownerServerId !== serverId) {
+      return false;
+    }
+
+    if (value === null) {
+      db.query("DELETE FROM group_settings WHERE group_id = ? AND key = ?").run(
+        group.id,
+        key
+      );
+    } else {
+      db.query(
+        `INSERT INTO group_settings (group_id, key, value) VALUES (?, ?, ?)
+         ON CONFLICT (group_id, key) DO UPDATE SET value = excluded.value`
+      ).run(group.id, key, value);
+    }
+
+    this.notifyChange();
+    return true;
+  }
+
+  public static async getAllSettings(): Promise<StoredSettings> {
+    const db = await this.getDatabase();
+    const settings: StoredSettings = { groups: {}, channels: {} };
+
+    for (const row of db
+      .query<{ group_id: string; key: string; value: string }, []>(
+        "SELECT group_id, key, value FROM group_settings"
+      )
+      .all()) {
+      (settings.groups[row.group_id] ??= {})[row.key] = row.value;
+    }
+
+    for (const row of db
+      .query<{ channel_id: string; key: string; value: string }, []>(
+        "SELECT channel_id, key, value FROM channel_settings"
+      )
+      .all()) {
+      (settings.channels[row.channel_id] ??= {})[row.key] = row.value;
+    }
+
+    return settings;
+  }
+
+  public static async getGlossary(
+    serverId: string,
+    channelGroupId: string
+  ): Promise<GroupGlossary | null> {
+    const db = await this.getDatabase();
+    const group = this.findServerGroup(db, serverId, channelGroupId);
+    return group ? this.readGlossary(db, group.id) : null;
+  }
+
+  public static async getAllGlossaries(): Promise<{
+    [groupId: string]: GroupGlossary;
+  }> {
+    const db = await this.getDatabase();
+    const glossaries: { [groupId: string]: GroupGlossary } = {};
+
+    for (const row of db
+      .query<{ id: string }, []>("SELECT id FROM sync_groups")
+      .all()) {
+      glossaries[row.id] = this.readGlossary(db, row.id);
+    }
+
+    return glossaries;
+  }
+
+  private static readGlossary(db: Database, groupId: string): GroupGlossary {
+    const version =
+      db
+        .query<{ glossary_version: number }, [string]>(
+          "SELECT glossary_version FROM sync_groups WHERE id = ?"
+        )
+        .get(groupId)?.glossary_version ?? 0;
+
+    const entries = db
+      .query<{ term: string; translations: string }, [string]>(
+        "SELECT term, translations FROM glossary_terms WHERE group_id = ? ORDER BY term"
+      )
+      .all(groupId)
+      .map((row) => ({
+        term: row.term,
+        translations: JSON.parse(row.translations),
+      }));
+
+    return { version, entries };
+  }
+
+  // Without a language the term is kept untranslated, otherwise a fixed translation is added
+  public static async setGlossaryTerm(
+    serverId: string,
+    channelGroupId: string,
+    term: string,
+    language?: string,
+    translation?: string
+  ): Promise<boolean> {
+    const db = await this.getDatabase();
+
+    const updated = db.transaction(() => {
+      const group = this.findServerGroup(db, serverId, channelGroupId);
+
+      // The glossary applies to every member server, so only the owner may change it
+      if (!group || group.ownerServerId !== serverId) {
+        return false;
+      }
+
+      const existing = db
+        .query<{ translations: string }, [string, string]>(
+          "SELECT translations FROM glossary_terms WHERE group_id = ? AND term = ?"
+        )
+        .get(group.id, term);
+
+      const translations: GlossaryEntry["translations"] =
+        language && translation
+          ? { ...(existing ? JSON.parse(existing.translations) : {}), [language]: translation }
+          : {};
+
+      db.query(
+        `INSERT INTO glossary_terms (group_id, term, translations) VALUES (?, ?, ?)
+         ON CONFLICT (group_id, term) DO UPDATE SET term = excluded.term, translations = excluded.translations`
+      ).run(group.id, term, JSON.stringify(translations));
+      this.bumpGlossaryVersion(db, group.id);
+
+      return true;
+    })();
+
+    if (updated) {
+      this.notifyChange();
+    }
+    return updated;
+  }
+
+  // Without a language the whole term is removed, otherwise only that translation
+  public static async removeGlossaryTerm(
+    serverId: string,
+    channelGroupId: string,
+    term: string,
+    language?: string
+  ): Promise<boolean> {
+    const db = await this.getDatabase();
+
+    const removed = db.transaction(() => {
+      const group = this.findServerGroup(db, serverId, channelGroupId);
+      if (!group || group.ownerServerId !== serverId) {
+        return false;
+      }
+
+      const existing = db
+        .query<{ translations: string }, [string, string]>(
+          "SELECT translations FROM glossary_terms WHERE group_id = ? AND term = ?"
+        )
+        .get(group.id, term);
+      if (!existing) {
+        return false;
+      }
+
+      const translations: GlossaryEntry["translations"] = JSON.parse(
+        existing.translations
+      );
+
+      if (language) {
+        if (!(language in translations)) {
+          return false;
         }
+        delete translations[language];
       }
+
+      // Dropping the last translation would silently turn the term into do-not-translate
+      if (!language || Object.keys(translations).length === 0) {
+        db.query("DELETE FROM glossary_terms WHERE group_id = ? AND term = ?").run(
+          group.id,
+          term
+        );
+      } else {
+        db.query(
+          "UPDATE glossary_terms SET translations = ? WHERE group_id = ? AND term = ?"
+        ).run(JSON.stringify(translations), group.id, term);
+      }
+      this.bumpGlossaryVersion(db, group.id);
+
+      return true;
+    })();
+
+    if (removed) {
+      this.notifyChange();
+    }
+    return removed;
+  }
+
+  private static bumpGlossaryVersion(db: Database, groupId: string): void {
+    db.query(
+      "UPDATE sync_groups SET glossary_version = glossary_version + 1 WHERE id = ?"
+    ).run(groupId);
+  }
+
+  public static async setChannelSetting(
+    serverId: string,
+    channelId: string,
+    key: string,
+    value: string | null
+  ): Promise<void> {
+    const db = await this.getDatabase();
+
+    if (value === null) {
+      db.query("DELETE FROM channel_settings WHERE channel_id = ? AND key = ?").run(
+        channelId,
+        key
+      );
+    } else {
+      db.query(
+        `INSERT INTO channel_settings (channel_id, server_id, key, value) VALUES (?, ?, ?, ?)
+         ON CONFLICT (channel_id, key) DO UPDATE SET value = excluded.value`
+      ).run(channelId, serverId, key, value);
     }
 
-    return null;
+    this.notifyChange();
   }
 }
@@ -0,0 +1,222 @@
+import {
+  SyncStorageService,
+  type ChannelDirection,
+  type ChannelLanguageConfig,
+  type GroupGlossary,
+} from "./sync-storage.service";
+import {
+  SyncSettingsService,
+  type TranslationSettings,
+} from "./sync-settings.service";
+import type { TranslationGlossary } from "./translate-llm.service";
+
+export interface ChannelSyncGroup {
+  id: string; // Internal ID, groupId is the name users type
+  groupId: string;
+  channels: ChannelLanguageConfig[];
+  direction: ChannelDirection; // Direction of this channel within the group
+  settings: Partial<TranslationSettings>; // Group defaults
+  glossary: GroupGlossary;
+}
+
+export interface ChannelTopology {
+  channelId: string;
+  serverId: string;
+  language: string;
+  groups: ChannelSyncGroup[];
+  // Every other channel this one syncs with, across all of its groups
+  siblings: ChannelLanguageConfig[];
+  overrides: Partial<TranslationSettings>;
+}
+
+export class SyncTopologyService {
+  private static index = new Map<string, ChannelTopology>(); // channelId -> topology
+  private static listeners = new Set<() => void>();
+  private static rebuildQueue: Promise<void> = Promise.resolve();
+  private static unsubscribeStorage: (() => void) | null = null;
+
+  public static async initialize(): Promise<void> {
+    if (!this.unsubscribeStorage) {
+      this.unsubscribeStorage = SyncStorageService.subscribe(() => {
+        this.rebuild().catch((error) =>
+          console.error("Error rebuilding sync topology:", error)
+        );
+      });
+    }
+
+    await this.rebuild();
+  }
+
+  public static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public static rebuild(): Promise<void> {
+    // Serialize rebuilds so an older snapshot never replaces a newer one
+    this.rebuildQueue = this.rebuildQueue.then(async () => {
+      const data = await SyncStorageService.loadSyncData();
+      const storedSettings = await SyncStorageService.getAllSettings();
+      const glossaries = await SyncStorageService.getAllGlossaries();
+      const index = new Map<string, ChannelTopology>();
+
+      for (const group of Object.values(data.groups)) {
+        const groupSettings = SyncSettingsService.parseStoredSettings(
+          storedSettings.groups[group.id] ?? {}
+        );
+
+        for (const config of group.channels) {
+          let topology = index.get(config.channelId);
+          if (!topology) {
+            topology = {
+              channelId: config.channelId,
+              serverId: config.serverId,
+              language: config.language,
+              groups: [],
+              siblings: [],
+              overrides: SyncSettingsService.parseStoredSettings(
+                storedSettings.channels[config.channelId] ?? {}
+              ),
+            };
+            index.set(config.channelId, topology);
+          }
+
+          topology.groups.push({
+            id: group.id,
+            groupId: group.name,
+            channels: group.channels,
+            direction: config.direction,
+            settings: groupSettings,
+            glossary: glossaries[group.id] ?? { version: 0, entries: [] },
+          });
+
+          for (const sibling of group.channels) {
+            if (
+              sibling.channelId !== config.channelId &&
+              !topology.siblings.some((s) => s.channelId === sibling.channelId)
+            ) {
+              topology.siblings.push(sibling);
+            }
+          }
+        }
+      }
+
+      this.index = index;
+      console.log(`Sync topology rebuilt with ${index.size} channels`);
+
+      for (const listener of this.listeners) {
+        try {
+          listener();
+        } catch (error) {
+          console.error("Error in sync topology change listener:", error);
+        }
+      }
+    });
+
+    return this.rebuildQueue;
+  }
+
+  public static getChannel(
+    serverId: string,
+    channelId: string
+  ): ChannelTopology | null {
+    const topology = this.index.get(channelId);
+    return topology && topology.serverId === serverId ? topology : null;
+  }
+
+  public static getChannelLanguage(
+    serverId: string,
+    channelId: string
+  ): string | null {
+    return this.getChannel(serverId, channelId)?.language ?? null;
+  }
+
+  public static getSyncGroupsForChannel(
+    serverId: string,
+    channelId: string
+  ): ChannelSyncGroup[] {
+    return this.getChannel(serverId, channelId)?.groups ?? [];
+  }
+
+  public static getSiblings(
+    serverId: string,
+    channelId: string
+  ): ChannelLanguageConfig[] {
+    return this.getChannel(serverId, channelId)?.siblings ?? [];
+  }
+
+  // A channel can have a different direction in each of its groups
+  public static getDirection(channelId: string, groupId: string): ChannelDirection {
+    return this.findGroup(channelId, groupId)?.direction ?? "bidirectional";
+  }
+
+  // Threads have no configuration of their own, they follow the directions their
+  // parent channels have in the first group that lets the source reach the target
+  public static findRoutingGroup(
+    sourceChannelId: string,
+    targetChannelId: string
+  ): ChannelSyncGroup | undefined {
+    return this.index
+      .get(sourceChannelId)
+      ?.groups.find(
+        (group) =>
+          group.channels.some((config) => config.channelId === targetChannelId) &&
+          this.getDirection(sourceChannelId, group.id) !== "receive-only" &&
+          this.getDirection(targetChannelId, group.id) !== "broadcast"
+      );
+  }
+
+  // Resolves defaults, then the group's settings, then the channel's own overrides
+  public static getSettings(
+    channelId: string,
+    groupId?: string
+  ): TranslationSettings {
+    return SyncSettingsService.resolve(
+      this.findGroup(channelId, groupId)?.settings,
+      this.index.get(channelId)?.overrides
+    );
+  }
+
+  public static getGlossary(channelId: string, groupId?: string): GroupGlossary {
+    return this.findGroup(channelId, groupId)?.glossary ?? { version: 0, entries: [] };
+  }
+
+  // groupId is the internal ID, names can repeat across servers. Without one the
+  // channel's first group is used, a given ID that doesn't match means defaults
+  private static findGroup(
+    channelId: string,
+    groupId?: string
+  ): ChannelSyncGroup | undefined {
+    const topology = this.index.get(channelId);
+    return groupId === undefined
+      ? topology?.groups[0]
+      : topology?.groups.find((g) => g.id === groupId);
+  }
+
+  public static getTranslationGlossary(
+    channelId: string,
+    targetLanguage: string,
+    groupId?: string
+  ): TranslationGlossary {
+    const group = this.findGroup(channelId, groupId);
+    const glossary: TranslationGlossary = {
+      doNotTranslate: [],
+      fixedTranslations: [],
+      version: group ? `${group.id}:${group.glossary.version}` : undefined,
+    };
+
+    for (const entry of group?.glossary.entries ?? []) {
+      const translation = entry.translations[targetLanguage.toLowerCase()];
+      if (Object.keys(entry.translations).length === 0) {
+        glossary.doNotTranslate.push(entry.term);
+      } else if (translation) {
+        glossary.fixedTranslations.push({ term: entry.term, translation });
+      }
+    }
+
+    return glossary;
+  }
+}
@@ -0,0 +1,139 @@
+export interface SyncedThread {
+  threadId: string;
+  parentChannelId: string;
+  language: string;
+}
+
+export interface ThreadLink {
+  // The first entry is the thread the others were created from
+  threads: SyncedThread[];
+  serverId: string;
+  createdAt: number;
+}
+
+export interface ThreadLinkStorage {
+  [originThreadId: string]: ThreadLink;
+}
+
+export class ThreadLinkService {
+  private static readonly STORAGE_FILE_PATH = "./thread-links.json";
+
+  private static links: Map<string, ThreadLink> | null = null;
+  private static threadIndex = new Map<string, string>(); // threadId -> origin threadId
+  private static saveQueue: Promise<void> = Promise.resolve();
+
+  private static async ensureLoaded(): Promise<Map<string, ThreadLink>> {
+    if (this.links) {
+      return this.links;
+    }
+
+    const links = new Map<string, ThreadLink>();
+
+    try {
+      const file = Bun.file(this.STORAGE_FILE_PATH);
+      if (await file.exists()) {
+        const data = JSON.parse(await file.text()) as ThreadLinkStorage;
+        for (const [originThreadId, link] of Object.entries(data)) {
+          links.set(originThreadId, link);
+        }
+      }
+    } catch (error) {
+      console.error("Error loading thread link data:", error);
+    }
+
+    this.links = links;
+    this.threadIndex.clear();
+    for (const [originThreadId, link] of links) {
+      for (const thread of link.threads) {
+        this.threadIndex.set(thread.threadId, originThreadId);
+      }
+    }
+
+    return links;
+  }
+
+  private static async saveLinks(): Promise<void> {
+    // Serialize writes so concurrent updates never interleave on disk
+    this.saveQueue = this.saveQueue.then(async () => {
+      try {
+        const data: ThreadLinkStorage = {};
+        for (const [originThreadId, link] of this.links ?? []) {
+          data[originThreadId] = link;
+        }
+        await Bun.write(this.STORAGE_FILE_PATH, JSON.stringify(data, null, 2));
+      } catch (error) {
+        console.error("Error saving thread link data:", error);
+      }
+    });
+
+    return this.saveQueue;
+  }
+
+  public static async createLink(
+    serverId: string,
+    origin: SyncedThread
+  ): Promise<ThreadLink> {
+    const links = await this.ensureLoaded();
+
+    const link: ThreadLink = {
+      threads: [origin],
+      serverId,
+      createdAt: Date.now(),
+    };
+    links.set(origin.threadId, link);
+    this.threadIndex.set(origin.threadId, origin.threadId);
+
+    await this.saveLinks();
+    return link;
+  }
+
+  public static async addThread(
+    originThreadId: string,
+    thread: SyncedThread
+  ): Promise<void> {
+    const links = await this.ensureLoaded();
+    const link = links.get(originThreadId);
+
+    if (!link) {
+      throw new Error(`No thread link found for thread ${originThreadId}`);
+    }
+
+    link.threads = link.threads.filter((t) => t.threadId !== thread.threadId);
+    link.threads.push(thread);
+    this.threadIndex.set(thread.threadId, originThreadId);
+
+    await this.saveLinks();
+  }
+
+  public static async findLinkByThreadId(
+    threadId: string
+  ): Promise<ThreadLink | null> {
+    const links = await this.ensureLoaded();
+    const originThreadId = this.threadIndex.get(threadId);
+    return originThreadId ? links.get(originThreadId) || null : null;
+  }
+
+  public static async removeThread(threadId: string): Promise<boolean> {
+    const links = await this.ensureLoaded();
+    const originThreadId = this.threadIndex.get(threadId);
+    const link = originThreadId ? links.get(originThreadId) : undefined;
+
+    if (!originThreadId || !link) {
+      return false;
+    }
+
+    link.threads = link.threads.filter((t) => t.threadId !== threadId);
+    this.threadIndex.delete(threadId);
+
+    // A single remaining thread has nothing left to sync with
+    if (link.threads.length <= 1 || threadId === originThreadId) {
+      for (const thread of link.threads) {
+        this.threadIndex.delete(thread.threadId);
+      }
+      links.delete(originThreadId);
+    }
+
+    await this.saveLinks();
+    return true;
+  }
+}
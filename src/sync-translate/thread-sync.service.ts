@@ -0,0 +1,503 @@
+import {
+  Client,
+  TextChannel,
+  ThreadChannel,
+  ForumChannel,
+  ChannelType,
+  type AnyThreadChannel,
+  type ThreadEditOptions,
+  type GuildForumTag,
+} from "discord.js";
+import { SyncTopologyService } from "./sync-topology.service";
+import {
+  SyncSettingsService,
+  type TranslationSettings,
+} from "./sync-settings.service";
+import { MessageLinkService } from "./message-link.service";
+import { ThreadLinkService } from "./thread-link.service";
+import type { TranslationGlossary } from "./translate-llm.service";
+import { TranslationProviderRegistry } from "./providers/provider-registry";
+import { TranslationCancellationService } from "./translation-cancellation.service";
+import { WebhookService } from "./webhook.service";
+import { AttachmentSyncService } from "./attachment-sync.service";
+import { EmojiSyncService } from "./emoji-sync.service";
+import type { SyncMessageService } from "./sync-message.service";
+
+export class ThreadSyncService {
+  private client: Client;
+  private syncMessageService: SyncMessageService;
+  private static readonly MAX_THREAD_NAME_LENGTH = 100;
+
+  constructor(client: Client, syncMessageService: SyncMessageService) {
+    this.client = client;
+    this.syncMessageService = syncMessageService;
+  }
+
+  public async handleThreadCreate(
+    thread: AnyThreadChannel,
+    newlyCreated: boolean
+  ): Promise<void> {
+    if (!newlyCreated || !thread.parentId) {
+      return;
+    }
+
+    // Skip the counterpart threads we create ourselves
+    if (thread.ownerId === this.client.user?.id) {
+      return;
+    }
+
+    if (await ThreadLinkService.findLinkByThreadId(thread.id)) {
+      return;
+    }
+
+    try {
+      if (thread.parent?.type === ChannelType.GuildForum) {
+        await this.mirrorForumPost(thread, thread.parent);
+      } else {
+        await this.mirrorThread(thread, thread.parentId);
+      }
+    } catch (error) {
+      console.error(`Error mirroring thread ${thread.id}:`, error);
+    }
+  }
+
+  private async mirrorForumPost(
+    post: AnyThreadChannel,
+    forum: ForumChannel
+  ): Promise<void> {
+    const sourceLanguage = SyncTopologyService.getChannelLanguage(
+      post.guildId,
+      forum.id
+    );
+    if (!sourceLanguage) {
+      return;
+    }
+
+    const starterMessage = await post.fetchStarterMessage();
+
+    // Posts created through our own webhook are mirrors, not sources
+    if (!starterMessage || starterMessage.author.bot || starterMessage.webhookId) {
+      return;
+    }
+
+    const syncGroups = SyncTopologyService.getSyncGroupsForChannel(
+      post.guildId,
+      forum.id
+    );
+    const targetForums: Array<{
+      forum: ForumChannel;
+      language: string;
+      settings: TranslationSettings;
+      glossary: TranslationGlossary;
+    }> = [];
+    for (const { id, channels } of syncGroups) {
+      // Posts only leave through groups the forum may send to
+      if (SyncTopologyService.getDirection(forum.id, id) === "receive-only") {
+        continue;
+      }
+
+      for (const config of channels) {
+        if (
+          config.channelId === forum.id ||
+          config.direction === "broadcast" ||
+          targetForums.some((t) => t.forum.id === config.channelId)
+        ) {
+          continue;
+        }
+
+        const channel = await this.client.channels
+          .fetch(config.channelId)
+          .catch(() => null);
+        if (channel?.type === ChannelType.GuildForum) {
+          targetForums.push({
+            forum: channel,
+            language: config.language,
+            settings: SyncTopologyService.getSettings(channel.id, id),
+            glossary: SyncTopologyService.getTranslationGlossary(
+              channel.id,
+              config.language,
+              id
+            ),
+          });
+        }
+      }
+    }
+
+    if (targetForums.length === 0) {
+      return;
+    }
+
+    console.log(
+      `Mirroring forum post "${post.name}" (${post.id}) to ${targetForums.length} forums`
+    );
+
+    await ThreadLinkService.createLink(post.guildId, {
+      threadId: post.id,
+      parentChannelId: forum.id,
+      language: sourceLanguage,
+    });
+
+    const author = starterMessage.author;
+    const displayName =
+      starterMessage.member?.displayName || author.displayName || author.username;
+    const sourceTags = forum.availableTags.filter((tag) =>
+      post.appliedTags.includes(tag.id)
+    );
+    const attachments = AttachmentSyncService.fromMessage(starterMessage);
+
+    for (const target of targetForums) {
+      try {
+        const threadName = await this.translateThreadName(
+          post.name,
+          sourceLanguage,
+          target.language,
+          target.settings,
+          target.glossary
+        );
+        const translatedContent =
+          sourceLanguage.toLowerCase() === target.language.toLowerCase()
+            ? starterMessage.content
+            : await this.syncMessageService.translateContent(
+                starterMessage,
+                sourceLanguage,
+                target.language,
+                target.settings,
+                target.glossary,
+                TranslationCancellationService.shutdownSignal
+              );
+
+        let content = translatedContent;
+        if (starterMessage.guild && starterMessage.guild.id !== target.forum.guild.id) {
+          const emojiResult = await EmojiSyncService.extractAndCloneEmojis(
+            translatedContent,
+            starterMessage.guild,
+            target.forum.guild
+          );
+          content = emojiResult.processedContent;
+          await EmojiSyncService.scheduleEmojiCleanup(emojiResult.clonedEmojis);
+        }
+
+        const { files, linkLines } = AttachmentSyncService.prepareForUpload(
+          attachments,
+          target.forum.guild
+        );
+
+        const mirroredStarter = await WebhookService.createForumPost(
+          target.forum.id,
+          {
+            threadName,
+            content: [content, ...linkLines].filter((part) => part).join("\n"),
+            username: SyncSettingsService.formatDisplayName(
+              target.settings.displayFormat,
+              {
+                displayName,
+                username: author.username,
+                channel: forum.name,
+                server: post.guild.name,
+              }
+            ),
+            avatarURL: author.displayAvatarURL({ size: 256 }),
+            files,
+            appliedTags: await this.mapForumTags(
+              sourceTags,
+              target.forum,
+              sourceLanguage,
+              target.language,
+              target.settings
+            ),
+          }
+        );
+
+        if (!mirroredStarter) {
+          continue;
+        }
+
+        // The starter message of a post lives inside the post's thread
+        await ThreadLinkService.addThread(post.id, {
+          threadId: mirroredStarter.channelId,
+          parentChannelId: target.forum.id,
+          language: target.language,
+        });
+        await MessageLinkService.addMirror(
+          {
+            messageId: starterMessage.id,
+            channelId: post.id,
+            serverId: post.guildId,
+          },
+          {
+            channelId: mirroredStarter.channelId,
+            messageId: mirroredStarter.id,
+            language: target.language,
+            viaWebhook: true,
+          }
+        );
+
+        console.log(
+          `Created counterpart post ${mirroredStarter.channelId} in forum ${target.forum.id}`
+        );
+      } catch (error) {
+        console.error(
+          `Failed to create counterpart post in forum ${target.forum.id}:`,
+          error
+        );
+      }
+    }
+  }
+
+  private async mapForumTags(
+    sourceTags: GuildForumTag[],
+    targetForum: ForumChannel,
+    sourceLanguage: string,
+    targetLanguage: string,
+    settings?: TranslationSettings
+  ): Promise<string[]> {
+    const mappedTagIds: string[] = [];
+
+    for (const sourceTag of sourceTags) {
+      // Match by name first, then by emoji, then by translated name
+      let targetTag =
+        targetForum.availableTags.find(
+          (tag) => tag.name.toLowerCase() === sourceTag.name.toLowerCase()
+        ) ||
+        targetForum.availableTags.find(
+          (tag) =>
+            !!tag.emoji &&
+            !!sourceTag.emoji &&
+            (tag.emoji.id
+              ? tag.emoji.id === sourceTag.emoji.id
+              : tag.emoji.name === sourceTag.emoji.name)
+        );
+
+      if (!targetTag) {
+        const translatedName = await this.translateThreadName(
+          sourceTag.name,
+          sourceLanguage,
+          targetLanguage,
+          settings
+        );
+        targetTag = targetForum.availableTags.find(
+          (tag) => tag.name.toLowerCase() === translatedName.toLowerCase()
+        );
+      }
+
+      if (targetTag && !mappedTagIds.includes(targetTag.id)) {
+        mappedTagIds.push(targetTag.id);
+      }
+    }
+
+    // Discord allows at most 5 tags per post
+    return mappedTagIds.slice(0, 5);
+  }
+
+  private async mirrorThread(
+    thread: AnyThreadChannel,
+    parentChannelId: string
+  ): Promise<void> {
+    // Message threads share their ID with the message they were started from
+    const messageLink = await MessageLinkService.findLinkByMessageId(thread.id);
+    if (!messageLink) {
+      return;
+    }
+
+    const sourceLanguage = SyncTopologyService.getChannelLanguage(
+      messageLink.serverId,
+      messageLink.sourceChannelId
+    );
+    if (!sourceLanguage) {
+      return;
+    }
+
+    const copies = [
+      {
+        channelId: messageLink.sourceChannelId,
+        messageId: messageLink.sourceMessageId,
+        language: sourceLanguage,
+      },
+      ...messageLink.mirrors,
+    ];
+
+    const originCopy = copies.find((copy) => copy.messageId === thread.id);
+    if (!originCopy) {
+      return;
+    }
+
+    // Each copy is reached through a group that lets the origin channel send to it
+    const targets = copies.flatMap((copy) => {
+      const group =
+        copy.messageId === thread.id
+          ? undefined
+          : SyncTopologyService.findRoutingGroup(originCopy.channelId, copy.channelId);
+      return group ? [{ copy, groupId: group.id }] : [];
+    });
+    if (targets.length === 0) {
+      return;
+    }
+
+    console.log(
+      `Mirroring thread "${thread.name}" (${thread.id}) to ${targets.length} channels`
+    );
+
+    await ThreadLinkService.createLink(thread.guildId, {
+      threadId: thread.id,
+      parentChannelId,
+      language: originCopy.language,
+    });
+
+    for (const { copy, groupId } of targets) {
+      try {
+        const channel = (await this.client.channels.fetch(
+          copy.channelId
+        )) as TextChannel;
+        const message = await channel.messages.fetch(copy.messageId);
+
+        const name = await this.translateThreadName(
+          thread.name,
+          originCopy.language,
+          copy.language,
+          SyncTopologyService.getSettings(copy.channelId, groupId),
+          SyncTopologyService.getTranslationGlossary(copy.channelId, copy.language, groupId)
+        );
+        const mirroredThread = await message.startThread({
+          name,
+          autoArchiveDuration: thread.autoArchiveDuration ?? undefined,
+          reason: `Mirrored from thread ${thread.id} for translation sync`,
+        });
+
+        await ThreadLinkService.addThread(thread.id, {
+          threadId: mirroredThread.id,
+          parentChannelId: copy.channelId,
+          language: copy.language,
+        });
+
+        console.log(
+          `Created counterpart thread ${mirroredThread.id} in channel ${copy.channelId}`
+        );
+      } catch (error) {
+        console.error(
+          `Failed to create counterpart thread in channel ${copy.channelId}:`,
+          error
+        );
+      }
+    }
+  }
+
+  public async handleThreadUpdate(
+    oldThread: AnyThreadChannel,
+    newThread: AnyThreadChannel
+  ): Promise<void> {
+    const link = await ThreadLinkService.findLinkByThreadId(newThread.id);
+    const origin = link?.threads[0];
+
+    // Only the thread the others were created from drives their state
+    if (!link || !origin || origin.threadId !== newThread.id) {
+      return;
+    }
+
+    const nameChanged = oldThread.name !== newThread.name;
+    const archivedChanged = oldThread.archived !== newThread.archived;
+    const lockedChanged = oldThread.locked !== newThread.locked;
+    const tagsChanged =
+      oldThread.appliedTags.join(",") !== newThread.appliedTags.join(",");
+
+    if (!nameChanged && !archivedChanged && !lockedChanged && !tagsChanged) {
+      return;
+    }
+
+    const sourceForum =
+      newThread.parent?.type === ChannelType.GuildForum ? newThread.parent : null;
+
+    for (const target of link.threads.slice(1)) {
+      try {
+        const targetThread = (await this.client.channels.fetch(
+          target.threadId
+        )) as ThreadChannel;
+
+        const settings = SyncTopologyService.getSettings(target.parentChannelId);
+        const changes: ThreadEditOptions = {
+          reason: `Following changes of thread ${newThread.id}`,
+        };
+        if (nameChanged) {
+          changes.name = await this.translateThreadName(
+            newThread.name,
+            origin.language,
+            target.language,
+            settings,
+            SyncTopologyService.getTranslationGlossary(
+              target.parentChannelId,
+              target.language
+            )
+          );
+        }
+        if (archivedChanged) {
+          changes.archived = newThread.archived ?? false;
+        }
+        if (lockedChanged) {
+          changes.locked = newThread.locked ?? false;
+        }
+        if (
+          tagsChanged &&
+          sourceForum &&
+          targetThread.parent?.type === ChannelType.GuildForum
+        ) {
+          changes.appliedTags = await this.mapForumTags(
+            sourceForum.availableTags.filter((tag) =>
+              newThread.appliedTags.includes(tag.id)
+            ),
+            targetThread.parent,
+            origin.language,
+            target.language,
+            settings
+          );
+        }
+
+        await targetThread.edit(changes);
+        console.log(`Updated counterpart thread ${target.threadId}`);
+      } catch (error) {
+        console.error(
+          `Failed to update counterpart thread ${target.threadId}:`,
+          error
+        );
+      }
+    }
+  }
+
+  public async handleThreadDelete(thread: AnyThreadChannel): Promise<void> {
+    const removed = await ThreadLinkService.removeThread(thread.id);
+    if (removed) {
+      console.log(`Stopped syncing deleted thread ${thread.id}`);
+    }
+  }
+
+  private async translateThreadName(
+    name: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    settings: TranslationSettings = SyncSettingsService.DEFAULT_SETTINGS,
+    glossary?: TranslationGlossary
+  ): Promise<string> {
+    if (sourceLanguage.toLowerCase() === targetLanguage.toLowerCase()) {
+      return name;
+    }
+
+    let translatedName = name;
+    try {
+      const result = await TranslationProviderRegistry.translate(
+        SyncSettingsService.getProviderChain(settings),
+        {
+          text: name,
+          targetLanguage,
+          originLanguage: sourceLanguage,
+          model: settings.model,
+          formality: settings.formality,
+          glossary,
+          signal: TranslationCancellationService.shutdownSignal,
+        }
+      );
+      translatedName = result.translatedText;
+    } catch (error) {
+      console.warn(`Keeping original thread name "${name}":`, error);
+    }
+
+    return translatedName.slice(0, ThreadSyncService.MAX_THREAD_NAME_LENGTH);
+  }
+}
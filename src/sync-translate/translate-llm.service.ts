@@ -1,13 +1,66 @@
-import { generateText } from "ai";
-import { mistral } from "@ai-sdk/mistral";
-import { Message, TextChannel } from "discord.js";
+import { generateObject, generateText, jsonSchema, NoObjectGeneratedError } from "ai";
+import { createMistral } from "@ai-sdk/mistral";
+import { Message, type GuildTextBasedChannel } from "discord.js";
 import { LanguageService } from "./languages";
+import { DiscordSyntaxService, type ProtectedText } from "./discord-syntax.service";
+
+// Glossary of a sync group, narrowed down to one target language
+export interface TranslationGlossary {
+  doNotTranslate: string[];
+  fixedTranslations: Array<{ term: string; translation: string }>;
+  version?: string; // Changes whenever the group's terms do
+}
+
+// "chat" and "completion" talk to OpenAI-compatible servers such as Ollama,
+// llama.cpp server or vLLM
+export type LLMApiStyle = "mistral" | "chat" | "completion";
+
+export interface LLMBackendConfig {
+  name: string; // Shown in logs and dumps
+  apiStyle: LLMApiStyle;
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string; // Takes precedence over the model of the request
+  compactPrompt?: boolean; // Shorter prompt for small models that tend to ramble
+}
 
 export interface LLMTranslationRequest {
   text: string;
   targetLanguage: string;
   originLanguage?: string;
   contextMessages?: Message[];
+  model?: string;
+  formality?: "default" | "formal" | "informal";
+  glossary?: TranslationGlossary;
+  backend?: LLMBackendConfig; // Mistral when omitted
+  maxAttempts?: number; // Defaults to MAX_RETRIES
+  signal?: AbortSignal; // Stops retries and the running request
+}
+
+interface LLMPrompt {
+  system?: string;
+  prompt: string;
+}
+
+// Translates one message into several languages with a single request
+export interface LLMBatchTranslationRequest {
+  text: string;
+  targetLanguages: string[];
+  originLanguage?: string;
+  contextMessages?: Message[];
+  model?: string;
+  formality?: LLMTranslationRequest["formality"];
+  glossaries?: { [language: string]: TranslationGlossary };
+  signal?: AbortSignal;
+}
+
+export interface LLMBatchTranslationResult {
+  originalText: string;
+  translations: { [language: string]: string }; // Only languages that passed validation
+  failedLanguages: string[];
+  contextUsed: boolean;
+  model: string;
+  error?: unknown; // Set when the request failed as a whole
 }
 
 export interface LLMTranslationResult {
@@ -26,60 +79,64 @@ export interface MessageContext {
 
 export class TranslateLLMService {
   private static readonly DEFAULT_MODEL = "mistral-small-latest";
-  private static readonly MAX_CONTEXT_MESSAGES = 10;
+  private static readonly DEFAULT_CONTEXT_MESSAGES = 10;
+  private static readonly MAX_CONTEXT_MESSAGES = 25;
   private static readonly MAX_RETRIES = 3; // Increased for timeout handling
   private static readonly LLM_DUMPS_DIR = "./tmp/llm-dumps";
-  private static readonly RATE_LIMIT_MS = 1000; // 1 second between translations
   private static readonly TIMEOUT_MS = 30000; // 30 second timeout
+  // Scripts like CJK or Cyrillic take more tokens per character than the source
+  private static readonly OUTPUT_TOKENS_PER_CHAR = 1.5;
+  private static readonly MIN_OUTPUT_TOKENS = 1000;
+  private static readonly MAX_OUTPUT_TOKENS = 8000;
+  private static readonly OUTPUT_LIMIT_ERROR = "Translation was cut off at the output token limit";
 
-  private static lastTranslationTime = 0;
-  private static translationQueue: Promise<any> = Promise.resolve();
+  public static getMistralBackend(): LLMBackendConfig {
+    return {
+      name: "Mistral",
+      apiStyle: "mistral",
+      baseUrl: process.env.MISTRAL_BASE_URL,
+      apiKey: process.env.MISTRAL_API_KEY,
+    };
+  }
 
-  public static async translate(
-    request: LLMTranslationRequest
-  ): Promise<LLMTranslationResult> {
-    // Add to queue to enforce rate limiting
-    return (this.translationQueue = this.translationQueue.then(async () => {
-      return this.executeTranslation(request);
-    }));
+  // Configured with OPENAI_COMPATIBLE_* environment variables
+  public static getOpenAICompatibleBackend(): LLMBackendConfig {
+    return {
+      name: "OpenAI-compatible",
+      apiStyle:
+        process.env.OPENAI_COMPATIBLE_API_STYLE === "completion" ? "completion" : "chat",
+      baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      model: process.env.OPENAI_COMPATIBLE_MODEL,
+      compactPrompt: process.env.OPENAI_COMPATIBLE_COMPACT_PROMPT !== "off",
+    };
   }
 
-  private static async executeTranslation(
-    request: LLMTranslationRequest
-  ): Promise<LLMTranslationResult> {
-    // Rate limiting: ensure at least 1 second between translations
-    const now = Date.now();
-    const timeSinceLastTranslation = now - this.lastTranslationTime;
-    if (timeSinceLastTranslation < this.RATE_LIMIT_MS) {
-      const waitTime = this.RATE_LIMIT_MS - timeSinceLastTranslation;
-      console.log(`Rate limiting: waiting ${waitTime}ms before translation`);
-      await new Promise((resolve) => setTimeout(resolve, waitTime));
+  private static validateBackend(backend: LLMBackendConfig): void {
+    if (backend.apiStyle === "mistral") {
+      if (!backend.apiKey) {
+        throw new Error("MISTRAL_API_KEY environment variable is required");
+      }
+    } else if (!backend.baseUrl || !backend.model) {
+      throw new Error(`${backend.name} backend needs a base URL and a model`);
     }
-    this.lastTranslationTime = Date.now();
+  }
 
+  // Rate limits are applied per provider by TranslationProviderRegistry
+  public static async translate(
+    request: LLMTranslationRequest
+  ): Promise<LLMTranslationResult> {
     this.validateRequest(request);
 
-    const apiKey = process.env.MISTRAL_API_KEY;
-    if (!apiKey) {
-      throw new Error("MISTRAL_API_KEY environment variable is required");
-    }
+    const backend = request.backend ?? this.getMistralBackend();
+    this.validateBackend(backend);
 
-    // Protect Discord syntax before translation
-    const { protectedText, replacements } = this.protectDiscordSyntax(
-      request.text
-    );
-
-    // Get recent message context if available
-    const contextMessages = request.contextMessages
-      ? await this.getMessageContext(request.contextMessages)
-      : [];
-
-    const prompt = this.buildTranslationPrompt(
-      protectedText,
-      request.targetLanguage,
-      request.originLanguage,
-      contextMessages
+    const model = backend.model || request.model || this.DEFAULT_MODEL;
+    const { prompt: initialPrompt, protection, contextUsed } = await this.preparePrompt(
+      request,
+      backend.compactPrompt
     );
+    let prompt = initialPrompt;
 
     // Create dump folder for this translation attempt
     const messageId =
@@ -91,56 +148,60 @@ export class TranslateLLMService {
     const dumpFolderName = `${Date.now()}_${messageId}`;
     const dumpFolderPath = `${this.LLM_DUMPS_DIR}/${dumpFolderName}`;
 
+    const maxAttempts = request.maxAttempts ?? this.MAX_RETRIES;
     let lastError: Error | null = null;
-    for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const attemptSignal = this.createAttemptSignal(request.signal);
+      const dumpPrompt = prompt.system ? `${prompt.system}\n\n${prompt.prompt}` : prompt.prompt;
       try {
-        console.log(`LLM Translation attempt ${attempt}/${this.MAX_RETRIES}`);
+        console.log(`LLM Translation attempt ${attempt}/${maxAttempts}`);
 
-        // Create a timeout wrapper around the API call
-        const translationPromise = generateText({
-          model: mistral(this.DEFAULT_MODEL),
+        const responseText = await this.generate(
+          backend,
+          model,
           prompt,
-          maxTokens: 1000,
-          temperature: 0.3, // Lower temperature for more consistent translations
-        });
-
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => {
-            reject(new Error(`Translation timeout after ${this.TIMEOUT_MS}ms`));
-          }, this.TIMEOUT_MS);
-        });
-
-        const result = await Promise.race([translationPromise, timeoutPromise]);
-        let translatedText = this.extractTranslation(result.text);
-
-        // Restore Discord syntax in the translation
-        translatedText = this.restoreDiscordSyntax(
-          translatedText,
-          replacements
+          this.getMaxOutputTokens(protection.protectedText),
+          attemptSignal.signal
+        );
+        const translatedText = DiscordSyntaxService.restore(
+          this.extractTranslation(responseText, request.targetLanguage, request.text),
+          protection
         );
 
         // Dump successful prompt and response
-        await this.dumpPromptAndResponse(dumpFolderPath, prompt, result.text, {
+        await this.dumpPromptAndResponse(dumpFolderPath, dumpPrompt, responseText, {
           attempt,
           success: true,
           originalText: request.text,
           translatedText,
           targetLanguage: request.targetLanguage,
-          contextUsed: contextMessages.length > 0,
+          contextUsed,
+          model,
         });
 
         return {
           originalText: request.text,
           translatedText,
           targetLanguage: request.targetLanguage,
-          contextUsed: contextMessages.length > 0,
-          model: this.DEFAULT_MODEL,
+          contextUsed,
+          model,
         };
       } catch (error) {
+        // Cancelled by the caller, retrying would only waste requests
+        if (request.signal?.aborted) {
+          throw request.signal.reason;
+        }
+
+        // The same limit would cut off the next answer too
+        if (this.isOutputLimitError(error)) {
+          throw error;
+        }
+
         lastError = error as Error;
         const errorMessage =
           error instanceof Error ? error.message : "Unknown error";
         const isTimeout = this.isTimeoutError(error);
+        const isPlaceholderError = DiscordSyntaxService.isPlaceholderError(error);
 
         console.error(
           `LLM Translation attempt ${attempt} failed${
@@ -152,7 +213,7 @@ export class TranslateLLMService {
         // Dump failed attempt
         await this.dumpPromptAndResponse(
           dumpFolderPath,
-          prompt,
+          dumpPrompt,
           `ERROR: ${error}`,
           {
             attempt,
@@ -160,11 +221,19 @@ export class TranslateLLMService {
             error: errorMessage,
             originalText: request.text,
             targetLanguage: request.targetLanguage,
-            contextUsed: contextMessages.length > 0,
+            contextUsed,
+            model,
           }
         );
 
-        if (attempt < this.MAX_RETRIES) {
+        if (attempt < maxAttempts) {
+          // The API is fine, the model needs to be told more firmly
+          if (isPlaceholderError) {
+            prompt = this.buildStrictPlaceholderPrompt(initialPrompt, protection);
+            console.log("Placeholders were lost, retrying with a stricter prompt...");
+            continue;
+          }
+
           // Calculate wait time with different strategies for different error types
           let waitTime: number;
           if (isTimeout) {
@@ -181,71 +250,397 @@ export class TranslateLLMService {
             );
           }
 
-          await new Promise((resolve) => setTimeout(resolve, waitTime));
+          await this.sleep(waitTime, request.signal);
         }
+      } finally {
+        attemptSignal.clear();
       }
     }
 
     throw new Error(
-      `LLM Translation failed after ${this.MAX_RETRIES} attempts. Last error: ${lastError?.message}`
+      `LLM Translation failed after ${maxAttempts} attempts. Last error: ${lastError?.message}`
     );
   }
 
-  private static protectDiscordSyntax(text: string): {
-    protectedText: string;
-    replacements: Map<string, string>;
+  private static buildStrictPlaceholderPrompt(
+    { system, prompt }: LLMPrompt,
+    protection: ProtectedText
+  ): LLMPrompt {
+    const reminder = `IMPORTANT: A previous answer dropped or changed placeholders. Your translation must contain each of these placeholders exactly once, unchanged: ${[
+      ...protection.replacements.keys(),
+    ].join(", ")}`;
+
+    return system
+      ? { system: `${system}\n${reminder}`, prompt }
+      : { prompt: `${reminder}\n\n${prompt}` };
+  }
+
+  // Aborts when the caller cancels or after TIMEOUT_MS, clear() stops the timer
+  private static createAttemptSignal(signal?: AbortSignal): {
+    signal: AbortSignal;
+    clear: () => void;
   } {
-    const replacements = new Map<string, string>();
-    let protectedText = text;
-    let counter = 0;
-
-    // Protect custom emojis: <:name:id> and <a:name:id>
-    const emojiRegex = /<a?:[^:]+:\d+>/g;
-    protectedText = protectedText.replace(emojiRegex, (match) => {
-      const placeholder = `__DISCORD_EMOJI_${counter++}__`;
-      replacements.set(placeholder, match);
-      return placeholder;
-    });
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      controller.abort(new Error(`Translation timeout after ${this.TIMEOUT_MS}ms`));
+    }, this.TIMEOUT_MS);
 
-    // Protect user mentions: <@userid> and <@!userid>
-    const userMentionRegex = /<@!?\d+>/g;
-    protectedText = protectedText.replace(userMentionRegex, (match) => {
-      const placeholder = `__DISCORD_USER_${counter++}__`;
-      replacements.set(placeholder, match);
-      return placeholder;
-    });
+    return {
+      signal: signal ? AbortSignal.any([signal, controller.signal]) : controller.signal,
+      clear: () => clearTimeout(timer),
+    };
+  }
 
-    // Protect role mentions: <@&roleid>
-    const roleMentionRegex = /<@&\d+>/g;
-    protectedText = protectedText.replace(roleMentionRegex, (match) => {
-      const placeholder = `__DISCORD_ROLE_${counter++}__`;
-      replacements.set(placeholder, match);
-      return placeholder;
-    });
+  private static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
 
-    // Protect channel mentions: <#channelid>
-    const channelMentionRegex = /<#\d+>/g;
-    protectedText = protectedText.replace(channelMentionRegex, (match) => {
-      const placeholder = `__DISCORD_CHANNEL_${counter++}__`;
-      replacements.set(placeholder, match);
-      return placeholder;
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
     });
+  }
 
-    return { protectedText, replacements };
+  private static estimateOutputTokens(text: string, languageCount = 1): number {
+    return Math.ceil(text.length * this.OUTPUT_TOKENS_PER_CHAR * languageCount);
   }
 
-  private static restoreDiscordSyntax(
-    text: string,
-    replacements: Map<string, string>
-  ): string {
-    let restoredText = text;
-    for (const [placeholder, original] of replacements) {
-      restoredText = restoredText.replace(
-        new RegExp(placeholder, "g"),
-        original
+  private static getMaxOutputTokens(text: string, languageCount = 1): number {
+    return Math.min(
+      Math.max(this.estimateOutputTokens(text, languageCount), this.MIN_OUTPUT_TOKENS),
+      this.MAX_OUTPUT_TOKENS
+    );
+  }
+
+  // Batches that would be cut off are translated one language at a time instead
+  public static fitsBatchOutput(text: string, languageCount: number): boolean {
+    return this.estimateOutputTokens(text, languageCount) <= this.MAX_OUTPUT_TOKENS;
+  }
+
+  // A truncated translation must never be posted as if it were complete
+  public static isOutputLimitError(error: unknown): boolean {
+    return (
+      typeof error === "object" &&
+      error !== null &&
+      "message" in error &&
+      String(error.message).includes(this.OUTPUT_LIMIT_ERROR)
+    );
+  }
+
+  private static async generate(
+    backend: LLMBackendConfig,
+    model: string,
+    { system, prompt }: LLMPrompt,
+    maxTokens: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const temperature = 0.3; // Lower temperature for more consistent translations
+
+    if (backend.apiStyle === "mistral") {
+      const mistral = createMistral({ baseURL: backend.baseUrl, apiKey: backend.apiKey });
+      const result = await generateText({
+        model: mistral(model),
+        system,
+        prompt,
+        maxTokens,
+        temperature,
+        abortSignal: signal,
+      });
+      if (result.finishReason === "length") {
+        throw new Error(`${this.OUTPUT_LIMIT_ERROR} (${maxTokens} tokens)`);
+      }
+      return result.text;
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (backend.apiKey) {
+      headers.Authorization = `Bearer ${backend.apiKey}`;
+    }
+
+    // Some servers don't stop at the chat template's end tokens on their own
+    const stop = ["<|im_end|>", "<|eot_id|>", "<end_of_turn>"];
+    const baseUrl = backend.baseUrl!.replace(/\/+$/, "");
+
+    const response =
+      backend.apiStyle === "chat"
+        ? await fetch(`${baseUrl}/chat/completions`, {
+            method: "POST",
+            headers,
+            signal,
+            body: JSON.stringify({
+              model,
+              messages: [
+                ...(system ? [{ role: "system", content: system }] : []),
+                { role: "user", content: prompt },
+              ],
+              max_tokens: maxTokens,
+              temperature,
+              stop,
+            }),
+          })
+        : await fetch(`${baseUrl}/completions`, {
+            method: "POST",
+            headers,
+            signal,
+            body: JSON.stringify({
+              model,
+              prompt: system ? `${system}\n\n${prompt}` : prompt,
+              max_tokens: maxTokens,
+              temperature,
+              stop,
+            }),
+          });
+
+    const data = (await response.json().catch(() => ({}))) as {
+      choices?: Array<{ message?: { content?: string }; text?: string; finish_reason?: string }>;
+      error?: { message?: string } | string;
+    };
+    if (!response.ok) {
+      const message = typeof data.error === "string" ? data.error : data.error?.message;
+      throw new Error(`${backend.name} HTTP ${response.status}: ${message ?? response.statusText}`);
+    }
+
+    const choice = data.choices?.[0];
+    if (choice?.finish_reason === "length") {
+      throw new Error(`${this.OUTPUT_LIMIT_ERROR} (${maxTokens} tokens)`);
+    }
+    return choice?.message?.content ?? choice?.text ?? "";
+  }
+
+  private static async preparePrompt(
+    request: LLMTranslationRequest,
+    compact = false
+  ): Promise<{
+    prompt: LLMPrompt;
+    protection: ProtectedText;
+    contextUsed: boolean;
+  }> {
+    // Protect Discord syntax before translation
+    const protection = DiscordSyntaxService.protect(
+      request.text,
+      request.glossary?.doNotTranslate
+    );
+    const { protectedText } = protection;
+
+    // Get recent message context if available
+    const contextMessages = request.contextMessages
+      ? await this.getMessageContext(request.contextMessages)
+      : [];
+
+    const prompt = compact
+      ? this.buildCompactTranslationPrompt(
+          protectedText,
+          request.targetLanguage,
+          request.originLanguage,
+          contextMessages,
+          request.formality,
+          request.glossary?.fixedTranslations
+        )
+      : {
+          prompt: this.buildTranslationPrompt(
+            protectedText,
+            request.targetLanguage,
+            request.originLanguage,
+            contextMessages,
+            request.formality,
+            request.glossary?.fixedTranslations
+          ),
+        };
+
+    return { prompt, protection, contextUsed: contextMessages.length > 0 };
+  }
+
+  public static async translateBatch(
+    request: LLMBatchTranslationRequest
+  ): Promise<LLMBatchTranslationResult> {
+    const targetLanguages = [
+      ...new Set(request.targetLanguages.map((language) => language.toLowerCase())),
+    ];
+    for (const targetLanguage of targetLanguages) {
+      this.validateRequest({ ...request, targetLanguage });
+    }
+
+    // Structured output needs the Mistral API
+    const backend = this.getMistralBackend();
+    this.validateBackend(backend);
+
+    const model = request.model || this.DEFAULT_MODEL;
+    const glossaries = request.glossaries ?? {};
+
+    // Terms kept as is are the same for every language of a group
+    const doNotTranslate = [
+      ...new Set(
+        Object.values(glossaries).flatMap((glossary) => glossary.doNotTranslate)
+      ),
+    ];
+    const protection = DiscordSyntaxService.protect(request.text, doNotTranslate);
+
+    const contextMessages = request.contextMessages
+      ? await this.getMessageContext(request.contextMessages)
+      : [];
+
+    const prompt = this.buildBatchTranslationPrompt(
+      protection.protectedText,
+      targetLanguages,
+      request.originLanguage,
+      contextMessages,
+      request.formality,
+      glossaries
+    );
+
+    const messageId = request.contextMessages?.[0]?.id ?? "unknown";
+    const dumpFolderPath = `${this.LLM_DUMPS_DIR}/${Date.now()}_${messageId}_batch`;
+    const contextUsed = contextMessages.length > 0;
+
+    const translations: { [language: string]: string } = {};
+    const failedLanguages: string[] = [];
+
+    const attemptSignal = this.createAttemptSignal(request.signal);
+    try {
+      console.log(
+        `LLM batch translation into ${targetLanguages.join(", ")}`
       );
+
+      const mistral = createMistral({ baseURL: backend.baseUrl, apiKey: backend.apiKey });
+      const result = await generateObject({
+        model: mistral(model),
+        schema: this.buildBatchSchema(targetLanguages),
+        prompt,
+        maxTokens: this.getMaxOutputTokens(protection.protectedText, targetLanguages.length),
+        temperature: 0.3,
+        abortSignal: attemptSignal.signal,
+      });
+      // Cut off JSON usually fails to parse already, anything that got through is incomplete
+      if (result.finishReason === "length") {
+        throw new Error(`${this.OUTPUT_LIMIT_ERROR} (batch)`);
+      }
+      const output = result.object.translations ?? {};
+
+      for (const targetLanguage of targetLanguages) {
+        const translatedText = this.validateBatchTranslation(
+          output[targetLanguage],
+          protection
+        );
+        if (translatedText === null) {
+          failedLanguages.push(targetLanguage);
+        } else {
+          translations[targetLanguage] = DiscordSyntaxService.restore(
+            translatedText,
+            protection
+          );
+        }
+      }
+
+      await this.dumpPromptAndResponse(
+        dumpFolderPath,
+        prompt,
+        JSON.stringify(result.object, null, 2),
+        {
+          attempt: 1,
+          success: failedLanguages.length === 0,
+          originalText: request.text,
+          translatedText: JSON.stringify(translations),
+          targetLanguage: targetLanguages.join(","),
+          contextUsed,
+          model,
+          error: failedLanguages.length > 0
+            ? `Invalid output for ${failedLanguages.join(", ")}`
+            : undefined,
+        }
+      );
+    } catch (caught) {
+      if (request.signal?.aborted) {
+        throw request.signal.reason;
+      }
+
+      // JSON cut off at the token limit fails to parse, it is still an output problem
+      const error =
+        NoObjectGeneratedError.isInstance(caught) && caught.finishReason === "length"
+          ? new Error(`${this.OUTPUT_LIMIT_ERROR} (batch)`)
+          : caught;
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      console.error("LLM batch translation failed:", errorMessage);
+
+      await this.dumpPromptAndResponse(dumpFolderPath, prompt, `ERROR: ${error}`, {
+        attempt: 1,
+        success: false,
+        error: errorMessage,
+        originalText: request.text,
+        targetLanguage: targetLanguages.join(","),
+        contextUsed,
+        model,
+      });
+
+      // Every language is retried one by one
+      return {
+        originalText: request.text,
+        translations: {},
+        failedLanguages: targetLanguages,
+        contextUsed,
+        model,
+        error,
+      };
+    } finally {
+      attemptSignal.clear();
+    }
+
+    if (failedLanguages.length > 0) {
+      console.warn(
+        `LLM batch translation returned invalid output for ${failedLanguages.join(", ")}`
+      );
+    }
+
+    return {
+      originalText: request.text,
+      translations,
+      failedLanguages,
+      contextUsed,
+      model,
+    };
+  }
+
+  private static buildBatchSchema(targetLanguages: string[]) {
+    return jsonSchema<{ translations?: { [language: string]: unknown } }>({
+      type: "object",
+      properties: {
+        translations: {
+          type: "object",
+          properties: Object.fromEntries(
+            targetLanguages.map((language) => [language, { type: "string" }])
+          ),
+          required: targetLanguages,
+          additionalProperties: false,
+        },
+      },
+      required: ["translations"],
+      additionalProperties: false,
+    });
+  }
+
+  // Returns null when the output for a language can't be used even after repairs
+  private static validateBatchTranslation(
+    value: unknown,
+    protection: ProtectedText
+  ): string | null {
+    if (typeof value !== "string" || value.trim().length === 0) {
+      return null;
     }
-    return restoredText;
+
+    const repaired = DiscordSyntaxService.repairPlaceholders(value, protection);
+    if (DiscordSyntaxService.findMissingPlaceholders(repaired, protection).length > 0) {
+      return null;
+    }
+
+    return repaired.trim();
   }
 
   private static validateRequest(request: LLMTranslationRequest): void {
@@ -283,9 +678,9 @@ export class TranslateLLMService {
     contextMessages: Message[]
   ): Promise<MessageContext[]> {
     try {
-      // Take the most recent messages, excluding the current one
+      // The caller decides the depth, the first entry is the current message
       const recentMessages = contextMessages
-        .slice(0, this.MAX_CONTEXT_MESSAGES)
+        .slice(0, this.MAX_CONTEXT_MESSAGES + 1)
         .filter((msg) => !msg.author.bot && msg.content.trim().length > 0)
         .map((msg) => ({
           author: msg.author.displayName || msg.author.username,
@@ -307,7 +702,9 @@ export class TranslateLLMService {
     text: string,
     targetLanguage: string,
     originLanguage?: string,
-    contextMessages: MessageContext[] = []
+    contextMessages: MessageContext[] = [],
+    formality: LLMTranslationRequest["formality"] = "default",
+    fixedTranslations: TranslationGlossary["fixedTranslations"] = []
   ): string {
     const targetLangName = LanguageService.getLanguageName(targetLanguage);
     const originLangName = originLanguage
@@ -321,11 +718,27 @@ export class TranslateLLMService {
 - Preserve ALL emojis, mentions, and special formatting EXACTLY as they appear
 - Keep slang and gaming terminology natural in the target language
 - Consider the conversational context
-- If something cannot be translated directly, provide the closest cultural equivalent
+- If something cannot be translated directly, provide the closest cultural equivalent${
+      formality === "formal"
+        ? "\n- Use a formal register, including formal forms of address where the target language has them"
+        : formality === "informal"
+          ? "\n- Use an informal, casual register, including informal forms of address where the target language has them"
+          : ""
+    }
 
 **Source Language:** ${originLangName}
 **Target Language:** ${targetLangName}`;
 
+    if (fixedTranslations.length > 0) {
+      prompt += `
+
+**Glossary (always use these translations):**
+`;
+      fixedTranslations.forEach(({ term, translation }) => {
+        prompt += `- "${term}" → "${translation}"\n`;
+      });
+    }
+
     if (contextMessages.length > 0) {
       prompt += `
 
@@ -349,39 +762,194 @@ ${text}
 - CRITICAL: Preserve Discord custom emojis EXACTLY (format: <:name:id> or <a:name:id>)
 - CRITICAL: Preserve user mentions EXACTLY (format: <@userid> or <@&roleid>)
 - CRITICAL: Keep all special Discord formatting intact
+- CRITICAL: Keep placeholders like __DISCORD_CODE_0__ or __DISCORD_TERM_0__ EXACTLY as they are, they stand for code, links and names
+- Keep markdown markers such as **, __, ~~ and || around the same words as in the original
 
 **Translation:**`;
 
     return prompt;
   }
 
-  private static extractTranslation(llmResponse: string): string {
+  private static buildBatchTranslationPrompt(
+    text: string,
+    targetLanguages: string[],
+    originLanguage?: string,
+    contextMessages: MessageContext[] = [],
+    formality: LLMTranslationRequest["formality"] = "default",
+    glossaries: { [language: string]: TranslationGlossary } = {}
+  ): string {
+    const originLangName = originLanguage
+      ? LanguageService.getLanguageName(originLanguage)
+      : "auto-detected";
+
+    let prompt = `You are a professional translator specializing in Discord chat translations. Your task is to translate the given message into several languages accurately while preserving the tone, style, and context.
+
+**Translation Guidelines:**
+- Maintain the original tone (casual, formal, excited, etc.)
+- Preserve ALL emojis, mentions, and special formatting EXACTLY as they appear
+- Keep slang and gaming terminology natural in each target language
+- Consider the conversational context
+- If something cannot be translated directly, provide the closest cultural equivalent${
+      formality === "formal"
+        ? "\n- Use a formal register, including formal forms of address where the target language has them"
+        : formality === "informal"
+          ? "\n- Use an informal, casual register, including informal forms of address where the target language has them"
+          : ""
+    }
+
+**Source Language:** ${originLangName}
+**Target Languages:**
+`;
+    targetLanguages.forEach((language) => {
+      prompt += `- "${language}": ${LanguageService.getLanguageName(language)}\n`;
+    });
+
+    const glossaryLines = targetLanguages.flatMap((language) =>
+      (glossaries[language]?.fixedTranslations ?? []).map(
+        ({ term, translation }) => `- ${language}: "${term}" → "${translation}"`
+      )
+    );
+    if (glossaryLines.length > 0) {
+      prompt += `
+**Glossary (always use these translations):**
+${glossaryLines.join("\n")}
+`;
+    }
+
+    if (contextMessages.length > 0) {
+      prompt += `
+**Recent Conversation Context:**
+`;
+      contextMessages.forEach((msg, index) => {
+        prompt += `${index + 1}. [${msg.author}]: ${msg.content}\n`;
+      });
+    }
+
+    prompt += `
+**Message to Translate:**
+${text}
+
+**Translation Instructions:**
+- Respond with a JSON object of the form {"translations": {"<language code>": "<translation>"}}
+- Include exactly one translation for every target language code listed above
+- Do not include explanations, notes, or commentary
+- CRITICAL: Preserve Discord custom emojis EXACTLY (format: <:name:id> or <a:name:id>)
+- CRITICAL: Preserve user mentions EXACTLY (format: <@userid> or <@&roleid>)
+- CRITICAL: Keep all special Discord formatting intact
+- CRITICAL: Keep placeholders like __DISCORD_CODE_0__ or __DISCORD_TERM_0__ EXACTLY as they are in every translation
+- Keep markdown markers such as **, __, ~~ and || around the same words as in the original`;
+
+    return prompt;
+  }
+
+  // Small models follow short, direct instructions better than the full prompt
+  private static buildCompactTranslationPrompt(
+    text: string,
+    targetLanguage: string,
+    originLanguage?: string,
+    contextMessages: MessageContext[] = [],
+    formality: LLMTranslationRequest["formality"] = "default",
+    fixedTranslations: TranslationGlossary["fixedTranslations"] = []
+  ): LLMPrompt {
+    const targetLangName = LanguageService.getLanguageName(targetLanguage);
+    const originLangName = originLanguage
+      ? LanguageService.getLanguageName(originLanguage)
+      : "the source language";
+
+    let system = `You translate Discord chat messages from ${originLangName} to ${targetLangName}.
+Reply with the ${targetLangName} translation only. No quotes, notes, explanations or alternatives, and never repeat the original.
+Keep emojis, mentions, markdown and placeholders like __DISCORD_URL_0__ exactly as they are.`;
+
+    if (formality === "formal") {
+      system += "\nUse a formal register.";
+    } else if (formality === "informal") {
+      system += "\nUse an informal, casual register.";
+    }
+
+    if (fixedTranslations.length > 0) {
+      system += `\nAlways translate: ${fixedTranslations
+        .map(({ term, translation }) => `"${term}" as "${translation}"`)
+        .join(", ")}.`;
+    }
+
+    // Fewer context lines, small models tend to translate them too
+    let prompt = "";
+    const recentContext = contextMessages.slice(-5);
+    if (recentContext.length > 0) {
+      prompt += `Earlier messages, for context only, do not translate:\n${recentContext
+        .map((msg) => `[${msg.author}]: ${msg.content}`)
+        .join("\n")}\n\n`;
+    }
+
+    prompt += `Message:\n${text}\n\n${targetLangName} translation:`;
+
+    return { system, prompt };
+  }
+
+  private static extractTranslation(
+    llmResponse: string,
+    targetLanguage?: string,
+    originalText?: string
+  ): string {
     // Clean up the LLM response to extract just the translation
-    let translation = llmResponse.trim();
+    let translation = llmResponse
+      .replace(/<think>[\s\S]*?<\/think>/gi, "") // Reasoning models
+      .replace(/<\|[a-z_]+\|>|<\/s>/gi, "") // Leaked special tokens
+      .trim();
+
+    // Unwrap a response that is entirely one code block
+    const fenced = translation.match(/^```[\w-]*\n([\s\S]*?)\n?```$/);
+    if (fenced && fenced[1]) {
+      translation = fenced[1].trim();
+    }
+
+    // Drop "Original: ..." echoes that some models put before the translation
+    const echoed = translation.match(/^(?:original|source)(?: text| message)?:[^\n]*\n+(?:translation|translated text):\s*([\s\S]+)$/i);
+    if (echoed && echoed[1]) {
+      translation = echoed[1].trim();
+    }
 
     // Remove common prefixes that LLMs might add
-    const prefixesToRemove = [
-      "Translation:",
-      "Translated text:",
-      "The translation is:",
-      "Here is the translation:",
-      '"',
-      "«",
-      "»",
+    const targetLangName = targetLanguage
+      ? LanguageService.getLanguageName(targetLanguage)
+      : null;
+    const prefixPatterns = [
+      /^(?:sure|certainly|of course|okay)[!,.]?\s+here(?: is|'s) (?:the|your) (?:\w+ )?translation[^:\n]*:\s*/i,
+      /^here(?: is|'s) (?:the|your) (?:\w+ )?translation[^:\n]*:\s*/i,
+      /^(?:the )?translation(?: is)?(?: \([^)\n]*\))?:\s*/i,
+      /^translated text:\s*/i,
+      ...(targetLangName
+        ? [new RegExp(`^${targetLangName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?: translation)?:\\s*`, "i")]
+        : []),
     ];
 
-    for (const prefix of prefixesToRemove) {
-      if (translation.toLowerCase().startsWith(prefix.toLowerCase())) {
-        translation = translation.slice(prefix.length).trim();
-      }
+    for (const pattern of prefixPatterns) {
+      translation = translation.replace(pattern, "").trim();
     }
 
-    // Remove surrounding quotes if present
+    // Remove a trailing note or explanation, but only when it is a paragraph the
+    // original message doesn't have
+    const paragraphs = translation.split(/\n\s*\n/);
+    const originalParagraphs = originalText ? originalText.trim().split(/\n\s*\n/).length : 1;
     if (
-      (translation.startsWith('"') && translation.endsWith('"')) ||
-      (translation.startsWith("'") && translation.endsWith("'"))
+      paragraphs.length > originalParagraphs &&
+      /^\(?(?:notes?|explanation|translation notes?):/i.test(paragraphs[paragraphs.length - 1]!.trim())
     ) {
-      translation = translation.slice(1, -1);
+      translation = paragraphs.slice(0, -1).join("\n\n").trim();
+    }
+
+    // Remove surrounding quotes if present
+    const quotePairs = [['"', '"'], ["'", "'"], ["“", "”"], ["„", "“"], ["«", "»"], ["「", "」"]];
+    for (const [open, close] of quotePairs) {
+      if (
+        translation.length > 1 &&
+        translation.startsWith(open!) &&
+        translation.endsWith(close!) &&
+        !translation.slice(1, -1).includes(close!)
+      ) {
+        translation = translation.slice(1, -1).trim();
+        break;
+      }
     }
 
     // Ensure we have a non-empty translation
@@ -393,8 +961,8 @@ ${text}
   }
 
   public static async fetchRecentMessages(
-    channel: TextChannel,
-    limit: number = this.MAX_CONTEXT_MESSAGES
+    channel: GuildTextBasedChannel,
+    limit: number = this.DEFAULT_CONTEXT_MESSAGES
   ): Promise<Message[]> {
     try {
       const messages = await channel.messages.fetch({
@@ -454,6 +1022,7 @@ ${text}
       translatedText?: string;
       targetLanguage: string;
       contextUsed: boolean;
+      model: string;
       error?: string;
     }
   ): Promise<void> {
@@ -471,7 +1040,7 @@ Success: ${metadata.success}
 Original Text: ${metadata.originalText}
 Target Language: ${metadata.targetLanguage}
 Context Used: ${metadata.contextUsed}
-Model: ${this.DEFAULT_MODEL}
+Model: ${metadata.model}
 ${metadata.translatedText ? `Translated Text: ${metadata.translatedText}` : ""}
 ${metadata.error ? `Error: ${metadata.error}` : ""}
 `;
@@ -590,20 +1159,6 @@ ${metadata.error ? `Error Details: ${metadata.error}` : ""}
     });
   }
 
-  public static getRateLimitInfo(): {
-    rateLimitMs: number;
-    timeSinceLastTranslation: number;
-    canTranslateNow: boolean;
-  } {
-    const now = Date.now();
-    const timeSinceLastTranslation = now - this.lastTranslationTime;
-    return {
-      rateLimitMs: this.RATE_LIMIT_MS,
-      timeSinceLastTranslation,
-      canTranslateNow: timeSinceLastTranslation >= this.RATE_LIMIT_MS,
-    };
-  }
-
   public static getRetrySettings(): {
     maxRetries: number;
     timeoutMs: number;
@@ -2,6 +2,8 @@ export interface TranslationRequest {
   text: string;
   targetLanguage: string;
   originLanguage?: string;
+  doNotTranslate?: string[];
+  signal?: AbortSignal;
 }
 
 export interface TranslationResult {
@@ -18,6 +20,7 @@ export interface TranslationError {
 }
 
 import { LanguageService } from './languages';
+import { DiscordSyntaxService } from './discord-syntax.service';
 
 export class TranslationService {
   private static readonly GOOGLE_TRANSLATE_API_URL = 'https://translate.googleapis.com/translate_a/single';
@@ -25,21 +28,28 @@ export class TranslationService {
   public async translate(request: TranslationRequest): Promise<TranslationResult> {
     this.validateRequest(request);
 
-    const url = this.buildTranslationUrl(request);
+    // Same placeholders as the LLM path, so code, links, mentions and glossary terms survive
+    const protection = DiscordSyntaxService.protect(request.text, request.doNotTranslate);
+    const url = this.buildTranslationUrl({ ...request, text: protection.protectedText });
 
+    let result: TranslationResult;
     try {
-      const response = await fetch(url);
+      const response = await fetch(url, { signal: request.signal });
       
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
       const data = await response.json();
-      return this.parseTranslationResponse(data, request);
+      result = this.parseTranslationResponse(data, request);
       
     } catch (error) {
       throw this.createTranslationError('Translation request failed', error);
     }
+
+    // Outside of the try, lost placeholders are not a failed request
+    result.translatedText = DiscordSyntaxService.restore(result.translatedText, protection);
+    return result;
   }
 
   private validateRequest(request: TranslationRequest): void {
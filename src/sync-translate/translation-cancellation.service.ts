@@ -0,0 +1,96 @@
+export interface TranslationJob {
+  signal: AbortSignal; // Aborts on deletion, deadline or shutdown
+  readonly cancelled: boolean; // Deleted or shutting down, results must not be posted
+  finish(): void;
+}
+
+interface PendingJob {
+  controller: AbortController;
+  timer: ReturnType<typeof setTimeout>;
+  cancelled: boolean;
+}
+
+// Gives up translations of a source message when it is deleted, when it takes
+// longer than its deadline or when the bot shuts down
+export class TranslationCancellationService {
+  // Starts when the message arrives, so waiting for rate limits counts too
+  private static readonly MESSAGE_DEADLINE_MS = 120000;
+
+  private static shutdownController = new AbortController();
+  private static pending = new Map<string, Set<PendingJob>>(); // source message id -> jobs
+
+  public static get shutdownSignal(): AbortSignal {
+    return this.shutdownController.signal;
+  }
+
+  public static start(messageId: string): TranslationJob {
+    const controller = new AbortController();
+    const job: PendingJob = {
+      controller,
+      cancelled: false,
+      timer: setTimeout(() => {
+        controller.abort(
+          new Error(
+            `Translation deadline of ${this.MESSAGE_DEADLINE_MS}ms exceeded for message ${messageId}`
+          )
+        );
+      }, this.MESSAGE_DEADLINE_MS),
+    };
+
+    const jobs = this.pending.get(messageId) ?? new Set<PendingJob>();
+    jobs.add(job);
+    this.pending.set(messageId, jobs);
+
+    return {
+      signal: AbortSignal.any([this.shutdownController.signal, controller.signal]),
+      get cancelled() {
+        return job.cancelled;
+      },
+      finish: () => {
+        clearTimeout(job.timer);
+        jobs.delete(job);
+        if (jobs.size === 0 && this.pending.get(messageId) === jobs) {
+          this.pending.delete(messageId);
+        }
+      },
+    };
+  }
+
+  // Returns whether translations of the message were still running
+  public static cancel(messageId: string): boolean {
+    const jobs = this.pending.get(messageId);
+    if (!jobs) {
+      return false;
+    }
+
+    this.pending.delete(messageId);
+    for (const job of jobs) {
+      this.abort(job, new Error(`Source message ${messageId} was deleted`));
+    }
+    return true;
+  }
+
+  public static shutdown(): void {
+    for (const jobs of this.pending.values()) {
+      for (const job of jobs) {
+        this.abort(job, new Error("Bot is shutting down"));
+      }
+    }
+    this.pending.clear();
+    this.shutdownController.abort(new Error("Bot is shutting down"));
+  }
+
+  private static abort(job: PendingJob, reason: Error): void {
+    clearTimeout(job.timer);
+    job.cancelled = true;
+    job.controller.abort(reason);
+  }
+
+  public static getPendingCount(): number {
+    let count = 0;
+    for (const jobs of this.pending.values()) {
+      count += jobs.size;
+    }
+    return count;
+  }
+}
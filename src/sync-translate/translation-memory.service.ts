@@ -0,0 +1,216 @@
+import { Database } from "bun:sqlite";
+import { createHash } from "crypto";
+import type { TranslationGlossary } from "./translate-llm.service";
+
+export interface TranslationMemoryKey {
+  text: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  provider: string;
+  model: string;
+  formality: string;
+  glossary?: TranslationGlossary;
+}
+
+export interface TranslationMemoryStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  stores: number;
+  evictions: number;
+  hitRate: number;
+}
+
+interface MemoryRow {
+  translated_text: string;
+  created_at: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS translation_memory (
+    key TEXT PRIMARY KEY,
+    source_language TEXT NOT NULL,
+    target_language TEXT NOT NULL,
+    translated_text TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_used_at INTEGER NOT NULL,
+    hits INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX IF NOT EXISTS idx_translation_memory_last_used ON translation_memory(last_used_at);
+`;
+
+// Remembers translations of the first provider so repeated phrases like "gg" or "lol" skip the API
+export class TranslationMemoryService {
+  private static readonly DATABASE_FILE_PATH = "./translation-memory.db";
+  private static readonly TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+  private static readonly MAX_ENTRIES = 20000;
+  private static readonly MAX_TEXT_LENGTH = 500; // Longer texts rarely repeat and depend on context
+  private static readonly PRUNE_EVERY_STORES = 100;
+
+  private static database: Database | null = null;
+  private static hits = 0;
+  private static misses = 0;
+  private static stores = 0;
+  private static evictions = 0;
+  private static storesSincePrune = 0;
+
+  private static getDatabase(): Database {
+    if (!this.database) {
+      const db = new Database(this.DATABASE_FILE_PATH, { create: true });
+      db.exec("PRAGMA journal_mode = WAL");
+      db.exec(SCHEMA);
+      this.database = db;
+      this.prune();
+    }
+    return this.database;
+  }
+
+  // Whitespace differences don't change the meaning, casing and punctuation do
+  public static normalizeText(text: string): string {
+    return text.normalize("NFC").replace(/[ \t]+/g, " ").trim();
+  }
+
+  public static isCacheable(text: string): boolean {
+    const normalized = this.normalizeText(text);
+    return normalized.length > 0 && normalized.length <= this.MAX_TEXT_LENGTH;
+  }
+
+  private static buildKey(key: TranslationMemoryKey): string {
+    const hasGlossary =
+      !!key.glossary &&
+      (key.glossary.doNotTranslate.length > 0 || key.glossary.fixedTranslations.length > 0);
+
+    // Without glossary terms the translation can be shared across groups
+    return createHash("sha256")
+      .update(
+        JSON.stringify([
+          this.normalizeText(key.text),
+          key.sourceLanguage.toLowerCase(),
+          key.targetLanguage.toLowerCase(),
+          key.provider,
+          key.model,
+          key.formality,
+          hasGlossary ? key.glossary!.version ?? "" : "",
+        ])
+      )
+      .digest("hex");
+  }
+
+  public static lookup(key: TranslationMemoryKey): string | null {
+    if (!this.isCacheable(key.text)) {
+      return null;
+    }
+
+    try {
+      const db = this.getDatabase();
+      const memoryKey = this.buildKey(key);
+      const now = Date.now();
+      const row = db
+        .query<MemoryRow, [string]>(
+          "SELECT translated_text, created_at FROM translation_memory WHERE key = ?"
+        )
+        .get(memoryKey);
+
+      if (!row || now - row.created_at > this.TTL_MS) {
+        if (row) {
+          db.query("DELETE FROM translation_memory WHERE key = ?").run(memoryKey);
+          this.evictions++;
+        }
+        this.misses++;
+        return null;
+      }
+
+      db.query(
+        "UPDATE translation_memory SET last_used_at = ?, hits = hits + 1 WHERE key = ?"
+      ).run(now, memoryKey);
+      this.hits++;
+      return row.translated_text;
+    } catch (error) {
+      console.error("Error reading translation memory:", error);
+      return null;
+    }
+  }
+
+  public static store(key: TranslationMemoryKey, translatedText: string): void {
+    if (!this.isCacheable(key.text) || !translatedText.trim()) {
+      return;
+    }
+
+    try {
+      const db = this.getDatabase();
+      const now = Date.now();
+      db.query(
+        `INSERT INTO translation_memory
+           (key, source_language, target_language, translated_text, created_at, last_used_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(key) DO UPDATE SET
+           translated_text = excluded.translated_text,
+           created_at = excluded.created_at,
+           last_used_at = excluded.last_used_at`
+      ).run(
+        this.buildKey(key),
+        key.sourceLanguage.toLowerCase(),
+        key.targetLanguage.toLowerCase(),
+        translatedText,
+        now,
+        now
+      );
+      this.stores++;
+
+      if (++this.storesSincePrune >= this.PRUNE_EVERY_STORES) {
+        this.prune();
+      }
+    } catch (error) {
+      console.error("Error writing translation memory:", error);
+    }
+  }
+
+  // Drops expired entries, then the least recently used ones above the size limit
+  private static prune(): void {
+    const db = this.getDatabase();
+    this.storesSincePrune = 0;
+
+    const expired = db
+      .query("DELETE FROM translation_memory WHERE created_at < ?")
+      .run(Date.now() - this.TTL_MS).changes;
+    const overflow = db
+      .query(
+        `DELETE FROM translation_memory WHERE key IN (
+           SELECT key FROM translation_memory ORDER BY last_used_at DESC LIMIT -1 OFFSET ?
+         )`
+      )
+      .run(this.MAX_ENTRIES).changes;
+
+    this.evictions += expired + overflow;
+    if (expired + overflow > 0) {
+      console.log(
+        `Pruned ${expired} expired and ${overflow} excess translation memory entries`
+      );
+    }
+  }
+
+  public static clear(): void {
+    this.getDatabase().exec("DELETE FROM translation_memory");
+  }
+
+  public static getMemoryStats(): TranslationMemoryStats {
+    let entries = 0;
+    try {
+      entries = this.getDatabase()
+        .query<{ count: number }, []>("SELECT COUNT(*) AS count FROM translation_memory")
+        .get()!.count;
+    } catch (error) {
+      console.error("Error counting translation memory entries:", error);
+    }
+
+    const lookups = this.hits + this.misses;
+    return {
+      entries,
+      hits: this.hits,
+      misses: this.misses,
+      stores: this.stores,
+      evictions: this.evictions,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+}
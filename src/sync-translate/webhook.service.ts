@@ -1,9 +1,14 @@
-import { TextChannel, Webhook, Client } from 'discord.js';
+import { TextChannel, ForumChannel, ChannelType, Webhook, Client, Message, DiscordAPIError, RESTJSONErrorCodes, type AttachmentPayload } from 'discord.js';
 
 interface WebhookCache {
   [channelId: string]: Webhook;
 }
 
+interface WebhookTarget {
+  webhook: Webhook;
+  threadId?: string; // Set when posting into a thread through its parent's webhook
+}
+
 export class WebhookService {
   private static webhookCache: WebhookCache = {};
   private static client: Client;
@@ -14,22 +19,16 @@ export class WebhookService {
 
   public static async getOrCreateWebhook(channelId: string): Promise<Webhook | null> {
     try {
-      // Check cache first
+      // Cached webhooks are trusted, requests through a deleted one drop it from the cache
       if (this.webhookCache[channelId]) {
-        // Verify webhook still exists
-        try {
-          await this.webhookCache[channelId].fetch();
-          return this.webhookCache[channelId];
-        } catch (error) {
-          // Webhook was deleted, remove from cache
-          delete this.webhookCache[channelId];
-        }
+        return this.webhookCache[channelId];
       }
 
-      const channel = await this.client.channels.fetch(channelId) as TextChannel;
+      const channel = await this.client.channels.fetch(channelId) as TextChannel | ForumChannel;
+      const isForum = channel?.type === ChannelType.GuildForum;
       
-      if (!channel || !channel.isTextBased() || channel.isDMBased()) {
-        console.error(`Channel ${channelId} is not a valid text channel`);
+      if (!channel || (!isForum && (!channel.isTextBased() || channel.isDMBased()))) {
+        console.error(`Channel ${channelId} is not a valid text or forum channel`);
         return null;
       }
 
@@ -67,33 +66,162 @@ export class WebhookService {
     }
   }
 
+  // A webhook deleted by someone else has to be looked up or created again next time
+  private static forgetDeletedWebhook(error: unknown, webhook: Webhook | null | undefined): void {
+    if (
+      webhook &&
+      error instanceof DiscordAPIError &&
+      error.code === RESTJSONErrorCodes.UnknownWebhook &&
+      this.webhookCache[webhook.channelId]?.id === webhook.id
+    ) {
+      delete this.webhookCache[webhook.channelId];
+      console.log(`Removed deleted webhook from cache for channel ${webhook.channelId}`);
+    }
+  }
+
+  // Threads have no webhooks of their own, they post through the parent channel's webhook
+  private static async resolveWebhookTarget(
+    channelId: string
+  ): Promise<WebhookTarget | null> {
+    const channel = await this.client.channels.fetch(channelId);
+
+    if (channel?.isThread()) {
+      if (!channel.parentId) {
+        console.error(`Thread ${channelId} has no parent channel`);
+        return null;
+      }
+
+      const webhook = await this.getOrCreateWebhook(channel.parentId);
+      return webhook ? { webhook, threadId: channel.id } : null;
+    }
+
+    const webhook = await this.getOrCreateWebhook(channelId);
+    return webhook ? { webhook } : null;
+  }
+
   public static async sendWebhookMessage(
     channelId: string,
     content: string,
     username: string,
-    avatarURL?: string
-  ): Promise<boolean> {
+    avatarURL?: string,
+    files: AttachmentPayload[] = []
+  ): Promise<Message | null> {
+    let target: WebhookTarget | null = null;
     try {
-      const webhook = await this.getOrCreateWebhook(channelId);
+      target = await this.resolveWebhookTarget(channelId);
       
-      if (!webhook) {
+      if (!target) {
         console.error(`Could not get webhook for channel ${channelId}`);
-        return false;
+        return null;
       }
 
-      await webhook.send({
+      return await target.webhook.send({
         content,
         username,
         avatarURL: avatarURL || undefined,
+        files,
+        threadId: target.threadId,
         allowedMentions: {
           parse: ['users'], // Allow user mentions but not @everyone/@here
           repliedUser: false
         }
       });
+    } catch (error) {
+      console.error(`Failed to send webhook message to channel ${channelId}:`, error);
+      this.forgetDeletedWebhook(error, target?.webhook);
+      return null;
+    }
+  }
+
+  public static async createForumPost(
+    forumChannelId: string,
+    post: {
+      threadName: string;
+      content: string;
+      username: string;
+      avatarURL?: string;
+      files?: AttachmentPayload[];
+      appliedTags?: string[];
+    }
+  ): Promise<Message | null> {
+    let webhook: Webhook | null = null;
+    try {
+      webhook = await this.getOrCreateWebhook(forumChannelId);
+
+      if (!webhook) {
+        console.error(`Could not get webhook for forum ${forumChannelId}`);
+        return null;
+      }
+
+      // Sending with a thread name through a forum webhook creates a new post
+      return await webhook.send({
+        threadName: post.threadName,
+        content: post.content,
+        username: post.username,
+        avatarURL: post.avatarURL || undefined,
+        files: post.files || [],
+        appliedTags: post.appliedTags || [],
+        allowedMentions: {
+          parse: ['users'],
+          repliedUser: false
+        }
+      });
+    } catch (error) {
+      console.error(`Failed to create forum post in forum ${forumChannelId}:`, error);
+      this.forgetDeletedWebhook(error, webhook);
+      return null;
+    }
+  }
+
+  public static async editWebhookMessage(
+    channelId: string,
+    messageId: string,
+    content: string
+  ): Promise<boolean> {
+    let target: WebhookTarget | null = null;
+    try {
+      target = await this.resolveWebhookTarget(channelId);
+
+      if (!target) {
+        console.error(`Could not get webhook for channel ${channelId}`);
+        return false;
+      }
+
+      await target.webhook.editMessage(messageId, {
+        content,
+        threadId: target.threadId,
+        allowedMentions: {
+          parse: ['users'],
+          repliedUser: false
+        }
+      });
 
       return true;
     } catch (error) {
-      console.error(`Failed to send webhook message to channel ${channelId}:`, error);
+      console.error(`Failed to edit webhook message ${messageId} in channel ${channelId}:`, error);
+      this.forgetDeletedWebhook(error, target?.webhook);
+      return false;
+    }
+  }
+
+  public static async deleteWebhookMessage(
+    channelId: string,
+    messageId: string
+  ): Promise<boolean> {
+    let target: WebhookTarget | null = null;
+    try {
+      target = await this.resolveWebhookTarget(channelId);
+
+      if (!target) {
+        console.error(`Could not get webhook for channel ${channelId}`);
+        return false;
+      }
+
+      await target.webhook.deleteMessage(messageId, target.threadId);
+      return true;
+    } catch (error) {
+      console.error(`Failed to delete webhook message ${messageId} in channel ${channelId}:`, error);
+      this.forgetDeletedWebhook(error, target?.webhook);
       return false;
     }
   }
@@ -104,7 +232,7 @@ export class WebhookService {
       
       for (const [channelId, webhook] of Object.entries(this.webhookCache)) {
         try {
-          await webhook.fetch();
+          await this.client.fetchWebhook(webhook.id);
         } catch (error) {
           // Webhook no longer exists, remove from cache
           delete this.webhookCache[channelId];
@@ -118,7 +246,7 @@ export class WebhookService {
 
   public static async deleteWebhook(channelId: string): Promise<boolean> {
     try {
-      const webhook = this.webhookCache[channelId];
+      const webhook = this.webhookCache[channelId] || await this.findBotWebhook(channelId);
       if (webhook) {
         await webhook.delete('Cleaning up translation webhook');
         delete this.webhookCache[channelId];
@@ -132,6 +260,19 @@ export class WebhookService {
     }
   }
 
+  private static async findBotWebhook(channelId: string): Promise<Webhook | null> {
+    const channel = await this.client.channels.fetch(channelId) as TextChannel | ForumChannel;
+
+    if (!channel || !('fetchWebhooks' in channel)) {
+      return null;
+    }
+
+    const existingWebhooks = await channel.fetchWebhooks();
+    return existingWebhooks.find(
+      webhook => webhook.owner?.id === this.client.user?.id && webhook.name === 'AI Dungeon Translator'
+    ) || null;
+  }
+
   public static getWebhookStats(): { 
     totalWebhooks: number; 
     channels: string[] 
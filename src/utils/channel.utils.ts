@@ -0,0 +1,18 @@
+import { ChannelType, ChatInputCommandInteraction } from 'discord.js';
+
+export class ChannelUtils {
+  public static resolveSyncChannelId(interaction: ChatInputCommandInteraction): string | undefined {
+    const selectedChannel = interaction.options.getChannel('channel');
+    if (selectedChannel) {
+      return selectedChannel.id;
+    }
+
+    // Inside a forum post the forum itself is what gets synced
+    const currentChannel = interaction.channel;
+    if (currentChannel?.isThread() && currentChannel.parent?.type === ChannelType.GuildForum) {
+      return currentChannel.parentId ?? undefined;
+    }
+
+    return currentChannel?.id;
+  }
+}
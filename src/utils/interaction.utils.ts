@@ -0,0 +1,21 @@
+import { ChatInputCommandInteraction, type InteractionReplyOptions } from 'discord.js';
+
+export class InteractionUtils {
+  // A subcommand may have replied or deferred before it failed, a second reply would throw
+  public static async replyWithError(
+    interaction: ChatInputCommandInteraction,
+    content: string
+  ): Promise<void> {
+    try {
+      if (interaction.deferred && !interaction.replied) {
+        await interaction.editReply({ content, embeds: [], components: [] });
+      } else if (interaction.replied) {
+        await interaction.followUp({ content, flags: ['Ephemeral'] } as InteractionReplyOptions);
+      } else {
+        await interaction.reply({ content, flags: ['Ephemeral'] } as InteractionReplyOptions);
+      }
+    } catch (error) {
+      console.error('Failed to send error reply:', error);
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { Message } from 'discord.js';
+import { Message, User } from 'discord.js';
 import { join, extname } from 'path';
 
 export interface UserLike {
@@ -32,10 +32,7 @@ export class UserUtils {
       username: user.username,
       displayName: user.displayName || user.username,
       tag: user.tag,
-      avatarUrl: user.displayAvatarURL({ 
-        size: this.DEFAULT_AVATAR_SIZE,
-        extension: 'png'
-      })
+      avatarUrl: this.getAvatarUrl(user)
     };
 
     let profilePicturePath: string | undefined;
@@ -59,6 +56,14 @@ export class UserUtils {
     };
   }
 
+  // The avatar webhook messages are posted with
+  public static getAvatarUrl(user: User): string {
+    return user.displayAvatarURL({
+      size: this.DEFAULT_AVATAR_SIZE,
+      extension: 'png'
+    });
+  }
+
   private static async downloadProfilePicture(
     avatarUrl: string,
     userId: string,